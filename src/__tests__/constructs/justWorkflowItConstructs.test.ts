@@ -1,5 +1,41 @@
-import { App, Stack } from 'aws-cdk-lib';
-import { JustWorkflowItConstructs } from '../../constructs/justWorkflowItConstructs';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { App, CfnResource, Duration, Stack } from 'aws-cdk-lib';
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import { Key } from 'aws-cdk-lib/aws-kms';
+import { RestApi } from 'aws-cdk-lib/aws-apigateway';
+import { AttributeType, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Vpc } from 'aws-cdk-lib/aws-ec2';
+import { EventBus } from 'aws-cdk-lib/aws-events';
+import { ManagedPolicy } from 'aws-cdk-lib/aws-iam';
+import { Stream } from 'aws-cdk-lib/aws-kinesis';
+import { Architecture, Function, InlineCode, Runtime, Tracing } from 'aws-cdk-lib/aws-lambda';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { Bucket } from 'aws-cdk-lib/aws-s3';
+import { Pass, StateMachine, DefinitionBody } from 'aws-cdk-lib/aws-stepfunctions';
+import { Topic } from 'aws-cdk-lib/aws-sns';
+import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+import { Queue } from 'aws-cdk-lib/aws-sqs';
+import { StringParameter } from 'aws-cdk-lib/aws-ssm';
+import {
+  DefinitionDeploymentMode,
+  DeploymentFailureMode,
+  JustWorkflowItConstructs,
+  PlaceholderTokenBehavior,
+  WorkflowNameMatching,
+  WorkflowRemovalPolicy,
+} from '../../constructs/justWorkflowItConstructs';
+import { IntegrationPermissionCheck } from '../../constructs/integrationPermissions';
+import { JustWorkflowItAuth } from '../../constructs/justWorkflowItAuth';
+import {
+  ExternalIdStrategy,
+  JustWorkflowItEnvironment,
+} from '../../constructs/justWorkflowItEnvironment';
+import { JustWorkflowItWorkflow } from '../../constructs/justWorkflowItWorkflow';
+import { WorkflowDefinitionBuilder } from '../../constructs/workflowDefinitionBuilder';
+import { WorkflowDefinitionSource } from '../../constructs/workflowDefinitionSource';
 
 describe('JustWorkflowItConstructs', () => {
   const validWorkflowDefinition = JSON.stringify({
@@ -58,6 +94,89 @@ describe('JustWorkflowItConstructs', () => {
     }).not.toThrow();
   });
 
+  test('should accept typed workflow definition objects', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    expect(() => {
+      new JustWorkflowItConstructs(stack, {
+        disambiguator: 'test',
+        organizationId: 'org123',
+        workflowDefinitions: [JSON.parse(validWorkflowDefinition)],
+      });
+    }).not.toThrow();
+  });
+
+  test('should accept workflow definition builders', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+    const parsed = JSON.parse(validWorkflowDefinition);
+
+    const builder = WorkflowDefinitionBuilder.workflow('builtWorkflow')
+      .definition('step1Input', parsed.definitions.step1Input)
+      .definition('step1Output', parsed.definitions.step1Output)
+      .step('step1', (step) =>
+        step
+          .integration('testIntegration')
+          .input('step1Input')
+          .output('step1Output')
+          .retries(2)
+          .timeoutSeconds(1000)
+      );
+
+    expect(() => {
+      new JustWorkflowItConstructs(stack, {
+        disambiguator: 'test',
+        organizationId: 'org123',
+        workflowDefinitions: [builder],
+      });
+    }).not.toThrow();
+  });
+
+  test('should report builder errors with the definition index', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    const builder = WorkflowDefinitionBuilder.workflow('badTransition').step(
+      'step1',
+      (step) =>
+        step
+          .integration('testIntegration')
+          .retries(2)
+          .timeoutSeconds(1000)
+          .transitionTo('missingStep')
+    );
+
+    expect(() => {
+      new JustWorkflowItConstructs(stack, {
+        disambiguator: 'test',
+        organizationId: 'org123',
+        workflowDefinitions: [validWorkflowDefinition, builder],
+      });
+    }).toThrow(/Invalid workflow definition at index 1: .*unknown step "missingStep"/);
+  });
+
+  test('should name the source file when a file definition is invalid', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-definitions-'));
+    const invalidFile = path.join(directory, 'invalid.json');
+    fs.writeFileSync(path.join(directory, 'valid.json'), validWorkflowDefinition);
+    fs.writeFileSync(invalidFile, '{ "workflowName": "invalid", "steps": [');
+
+    try {
+      expect(() => {
+        new JustWorkflowItConstructs(stack, {
+          disambiguator: 'test',
+          organizationId: 'org123',
+          workflowDefinitions: [WorkflowDefinitionSource.fromDirectory(directory)],
+        });
+      }).toThrow(`Invalid workflow definition at ${invalidFile}`);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
   test('should reject construct with invalid workflow definition at synth time', () => {
     const app = new App();
     const stack = new Stack(app, 'TestStack');
@@ -504,4 +623,1058 @@ describe('JustWorkflowItConstructs', () => {
       });
     }).not.toThrow();
   });
+
+  test('should allow multiple instances with configured secret and role names', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'TeamA',
+      organizationId: 'orgA',
+      workflowDefinitions: [validWorkflowDefinition],
+      authSecretName: '/justworkflowit/teamA/authToken',
+      executionRoleName: 'JustWorkflowItExecutionRole-TeamA',
+    });
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'TeamB',
+      organizationId: 'orgB',
+      workflowDefinitions: [validWorkflowDefinition],
+      authSecretName: '/justworkflowit/teamB/authToken',
+      executionRoleName: 'JustWorkflowItExecutionRole-TeamB',
+    });
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties('AWS::SecretsManager::Secret', {
+      Name: '/justworkflowit/teamA/authToken',
+    });
+    template.hasResourceProperties('AWS::SecretsManager::Secret', {
+      Name: '/justworkflowit/teamB/authToken',
+    });
+    const secretNames = Object.values(
+      template.findResources('AWS::SecretsManager::Secret')
+    ).map((secret) => secret.Properties.Name);
+    expect(secretNames).toEqual([
+      '/justworkflowit/teamA/authToken',
+      '/justworkflowit/teamB/authToken',
+    ]);
+    template.hasResourceProperties('AWS::IAM::Role', {
+      RoleName: 'JustWorkflowItExecutionRole-TeamB',
+    });
+  });
+
+  test('should reject a second instance creating the default secret in the same account and region', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'TeamA',
+      organizationId: 'orgA',
+      workflowDefinitions: [validWorkflowDefinition],
+    });
+
+    expect(() => new JustWorkflowItConstructs(new Stack(app, 'OtherStack'), {
+      disambiguator: 'TeamB',
+      organizationId: 'orgB',
+      workflowDefinitions: [validWorkflowDefinition],
+      executionRoleName: 'JustWorkflowItExecutionRole-TeamB',
+    })).toThrow(
+      'OtherStack/JustWorkflowItConstructsTeamB creates the auth secret "/justworkflowit/api/authToken", which '
+      + 'TestStack/JustWorkflowItConstructsTeamA already creates in the same account and region; set authSecretName'
+    );
+  });
+
+  test('should reject a second instance creating the default execution role in another region of the account', () => {
+    const app = new App();
+    const usStack = new Stack(app, 'UsStack', { env: { account: '123456789012', region: 'us-east-1' } });
+    const euStack = new Stack(app, 'EuStack', { env: { account: '123456789012', region: 'eu-west-1' } });
+    const otherAccountStack = new Stack(app, 'OtherAccountStack', { env: { account: '210987654321', region: 'us-east-1' } });
+
+    new JustWorkflowItConstructs(usStack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+    });
+    new JustWorkflowItConstructs(otherAccountStack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+    });
+
+    expect(() => new JustWorkflowItConstructs(euStack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+    })).toThrow(
+      'creates the execution role "JustWorkflowItExecutionRole", which UsStack/JustWorkflowItConstructstest already '
+      + 'creates in the same account; set executionRoleName'
+    );
+  });
+
+  test('should share the secret and role of another instance', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    const shared = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'Beta',
+      organizationId: 'orgBeta',
+      workflowDefinitions: [validWorkflowDefinition],
+    });
+    const sharing = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'Gamma',
+      organizationId: 'orgGamma',
+      workflowDefinitions: [validWorkflowDefinition],
+      authSecret: shared.authSecret,
+      executionRole: shared.executionRole,
+    });
+
+    expect(sharing.authSecret).toBe(shared.authSecret);
+    expect(sharing.executionRole).toBe(shared.executionRole);
+
+    const template = Template.fromStack(stack);
+    template.resourceCountIs('AWS::SecretsManager::Secret', 1);
+    template.hasResourceProperties('AWS::IAM::Role', {
+      RoleName: 'JustWorkflowItExecutionRole',
+      AssumeRolePolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Condition: { StringEquals: { 'sts:ExternalId': 'orgGamma' } },
+          }),
+        ]),
+      },
+    });
+  });
+
+  test('should harden the execution role trust policy', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+    const boundary = ManagedPolicy.fromManagedPolicyName(stack, 'Boundary', 'WorkloadBoundary');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      trustedAccountId: '111122223333',
+      permissionsBoundary: boundary,
+      maxSessionDuration: Duration.hours(2),
+      trustedWorkflowIds: ['wf-1', 'wf-2'],
+      trustedSourceIps: ['203.0.113.0/24'],
+      trustedSourceVpces: ['vpce-1234'],
+    });
+
+    const [role] = Object.values(Template.fromStack(stack).findResources('AWS::IAM::Role', {
+      Properties: { RoleName: 'JustWorkflowItExecutionRole' },
+    }));
+    expect(role.Properties.MaxSessionDuration).toBe(7200);
+    expect(role.Properties.PermissionsBoundary).toEqual(stack.resolve(boundary.managedPolicyArn));
+    expect(role.Properties.AssumeRolePolicyDocument.Statement).toEqual([
+      {
+        Action: ['sts:AssumeRole', 'sts:TagSession'],
+        Effect: 'Allow',
+        Principal: { AWS: stack.resolve(`arn:${stack.partition}:iam::111122223333:root`) },
+        Condition: {
+          StringEquals: {
+            'sts:ExternalId': 'org123',
+            'aws:RequestTag/WorkflowId': ['wf-1', 'wf-2'],
+            'aws:SourceVpce': ['vpce-1234'],
+          },
+          IpAddress: { 'aws:SourceIp': ['203.0.113.0/24'] },
+        },
+      },
+    ]);
+  });
+
+  test('should reject role hardening options for a role passed in', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    const shared = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'Beta',
+      organizationId: 'orgBeta',
+      workflowDefinitions: [validWorkflowDefinition],
+    });
+
+    expect(() => {
+      new JustWorkflowItConstructs(stack, {
+        disambiguator: 'Gamma',
+        organizationId: 'orgGamma',
+        workflowDefinitions: [validWorkflowDefinition],
+        executionRole: shared.executionRole,
+        maxSessionDuration: Duration.hours(2),
+      });
+    }).toThrow('permissionsBoundary and maxSessionDuration only apply to a created executionRole');
+  });
+
+  test('should reject both a shared secret and a secret name', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    const shared = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'Beta',
+      organizationId: 'orgBeta',
+      workflowDefinitions: [validWorkflowDefinition],
+    });
+
+    expect(() => {
+      new JustWorkflowItConstructs(stack, {
+        disambiguator: 'Gamma',
+        organizationId: 'orgGamma',
+        workflowDefinitions: [validWorkflowDefinition],
+        authSecret: shared.authSecret,
+        authSecretName: '/justworkflowit/gamma/authToken',
+      });
+    }).toThrow('Specify either authSecret or authSecretName, not both');
+  });
+
+  test('should read the auth token from an SSM parameter encrypted with a CMK', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+    const key = new Key(stack, 'TokenKey');
+    const parameter = StringParameter.fromSecureStringParameterAttributes(
+      stack,
+      'TokenParameter',
+      { parameterName: '/central/justworkflowit/token', encryptionKey: key }
+    );
+
+    const construct = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      authTokenParameter: parameter,
+      authTokenEncryptionKey: key,
+    });
+
+    expect(construct.authSecret).toBeUndefined();
+
+    const template = Template.fromStack(stack);
+    template.resourceCountIs('AWS::SecretsManager::Secret', 0);
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'JustWorkflowItDefinitionDeployer-test',
+      Environment: {
+        Variables: Match.objectLike({
+          AUTH_TOKEN_SOURCE_TYPE: 'ssm',
+          AUTH_TOKEN_SOURCE_ID: '/central/justworkflowit/token',
+        }),
+      },
+    });
+  });
+
+  test('should encrypt the created secret with a customer-managed key', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+    const key = new Key(stack, 'TokenKey');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      authTokenEncryptionKey: key,
+    });
+
+    const [secret] = Object.values(
+      Template.fromStack(stack).findResources('AWS::SecretsManager::Secret')
+    );
+    expect(secret.Properties.KmsKeyId).toEqual(stack.resolve(key.keyArn));
+  });
+
+  test('should derive definition keys from content so unchanged definitions synth identically', () => {
+    const synth = (definitions: string[]) => {
+      const app = new App();
+      const stack = new Stack(app, 'TestStack');
+      new JustWorkflowItConstructs(stack, {
+        disambiguator: 'test',
+        organizationId: 'org123',
+        workflowDefinitions: definitions,
+      });
+      return Template.fromStack(stack).toJSON();
+    };
+
+    const first = synth([validWorkflowDefinition]);
+    expect(synth([validWorkflowDefinition])).toEqual(first);
+
+    const [trigger] = Object.values(
+      first.Resources as Record<string, { Type: string; Properties: Record<string, unknown> }>
+    ).filter((resource) => resource.Type === 'AWS::CloudFormation::CustomResource');
+    expect(trigger.Properties.DefinitionKeys).toEqual({
+      validWorkflow: `definitions/${createHash('sha256').update(validWorkflowDefinition).digest('hex')}.json`,
+    });
+    expect(trigger.Properties).not.toHaveProperty('timestamp');
+  });
+
+  test('should reject two definitions with the same workflowName', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    expect(() => {
+      new JustWorkflowItConstructs(stack, {
+        disambiguator: 'test',
+        organizationId: 'org123',
+        workflowDefinitions: [validWorkflowDefinition, validWorkflowDefinition],
+      });
+    }).toThrow('Invalid workflow definition at index 1: duplicate workflowName "validWorkflow"');
+  });
+
+  test('should create one custom resource per workflow in PER_WORKFLOW mode', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+    const secondWorkflowDefinition = JSON.stringify({
+      ...JSON.parse(validWorkflowDefinition),
+      workflowName: 'secondWorkflow',
+    });
+
+    const construct = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition, secondWorkflowDefinition],
+      deploymentMode: DefinitionDeploymentMode.PER_WORKFLOW,
+    });
+
+    expect(construct.workflows).toHaveLength(2);
+
+    const template = Template.fromStack(stack);
+    template.resourceCountIs('AWS::CloudFormation::CustomResource', 2);
+    template.hasResourceProperties('AWS::CloudFormation::CustomResource', {
+      WorkflowName: 'secondWorkflow',
+      DefinitionKey: `definitions/${createHash('sha256').update(secondWorkflowDefinition).digest('hex')}.json`,
+    });
+  });
+
+  test('should expose workflow attributes through getAtt', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    const construct = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [],
+    });
+    const workflow = new JustWorkflowItWorkflow(stack, 'ValidWorkflow', {
+      integration: construct,
+      definition: JSON.parse(validWorkflowDefinition),
+    });
+
+    const logicalId = stack.getLogicalId(workflow.resource.node.defaultChild as CfnResource);
+    expect(stack.resolve(workflow.workflowId)).toEqual({ 'Fn::GetAtt': [logicalId, 'WorkflowId'] });
+    expect(stack.resolve(workflow.versionId)).toEqual({ 'Fn::GetAtt': [logicalId, 'VersionId'] });
+    expect(stack.resolve(workflow.workflowName)).toEqual({ 'Fn::GetAtt': [logicalId, 'WorkflowName'] });
+    expect(construct.workflows).toEqual([workflow]);
+  });
+
+  test('should reject a workflow whose name is already deployed by the construct', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    const construct = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+    });
+
+    expect(() => {
+      new JustWorkflowItWorkflow(stack, 'ValidWorkflow', {
+        integration: construct,
+        definition: validWorkflowDefinition,
+      });
+    }).toThrow('Duplicate workflowName "validWorkflow"');
+  });
+
+  test('should resolve typed accessors to batch custom resource attributes in BATCH mode', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    const construct = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+    });
+
+    expect(stack.resolve(construct.getWorkflowId('validWorkflow'))).toEqual({
+      'Fn::GetAtt': [expect.stringMatching(/JustWorkflowItDefinitionDeployerTrigger/), 'Workflows.validWorkflow.WorkflowId'],
+    });
+    expect(stack.resolve(construct.getLiveVersionId('validWorkflow'))).toEqual({
+      'Fn::GetAtt': [expect.stringMatching(/JustWorkflowItDefinitionDeployerTrigger/), 'Workflows.validWorkflow.VersionId'],
+    });
+    expect(() => construct.getWorkflowId('unknownWorkflow')).toThrow(
+      'No workflow named "unknownWorkflow" is deployed'
+    );
+  });
+
+  test('should resolve typed accessors to workflow attributes in PER_WORKFLOW mode', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    const construct = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      deploymentMode: DefinitionDeploymentMode.PER_WORKFLOW,
+    });
+
+    expect(construct.getWorkflowId('validWorkflow')).toBe(construct.workflows[0].workflowId);
+    expect(construct.getLiveVersionId('validWorkflow')).toBe(construct.workflows[0].versionId);
+  });
+
+  test('should pass the workflow removal policy to the deployer', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    const construct = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      workflowRemovalPolicy: WorkflowRemovalPolicy.UNTAG_LIVE,
+    });
+    const archived = new JustWorkflowItWorkflow(stack, 'ArchivedWorkflow', {
+      integration: construct,
+      definition: { ...JSON.parse(validWorkflowDefinition), workflowName: 'archivedWorkflow' },
+      removalPolicy: WorkflowRemovalPolicy.ARCHIVE,
+    });
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties('AWS::CloudFormation::CustomResource', {
+      DefinitionKeys: Match.anyValue(),
+      RemovalPolicy: 'UNTAG_LIVE',
+    });
+    template.hasResourceProperties('AWS::CloudFormation::CustomResource', {
+      WorkflowName: 'archivedWorkflow',
+      RemovalPolicy: 'ARCHIVE',
+    });
+    expect(archived.resource).toBeDefined();
+  });
+
+  test('should let the deployer keep rollback state in the definitions bucket', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+    });
+
+    const template = Template.fromStack(stack);
+    const [uploads] = Object.values(template.findResources('Custom::CDKBucketDeployment'));
+    expect(uploads.Properties.Exclude).toEqual(['state/*']);
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: Match.arrayWith(['s3:PutObject']),
+            Resource: {
+              'Fn::Join': ['', [Match.anyValue(), '/state/*']],
+            },
+          }),
+        ]),
+      },
+    });
+  });
+
+  test('should pass version tags and promotion to the deployer', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    const construct = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      versionTag: '$PROD',
+      promoteFromTag: '$BETA',
+    });
+    new JustWorkflowItWorkflow(stack, 'StagingWorkflow', {
+      integration: construct,
+      definition: { ...JSON.parse(validWorkflowDefinition), workflowName: 'stagingWorkflow' },
+      versionTag: '$STAGING',
+      promoteFromTag: '$DEV',
+    });
+
+    const customResources = Object.values(
+      Template.fromStack(stack).findResources('AWS::CloudFormation::CustomResource')
+    ).map((resource) => resource.Properties);
+    expect(customResources).toContainEqual(
+      expect.objectContaining({ DefinitionKeys: expect.anything(), VersionTag: '$PROD', PromoteFromTag: '$BETA' })
+    );
+    expect(customResources).toContainEqual(
+      expect.objectContaining({ WorkflowName: 'stagingWorkflow', VersionTag: '$STAGING', PromoteFromTag: '$DEV' })
+    );
+  });
+
+  test('should reject promoting a tag onto itself', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    expect(() => {
+      new JustWorkflowItConstructs(stack, {
+        disambiguator: 'test',
+        organizationId: 'org123',
+        workflowDefinitions: [validWorkflowDefinition],
+        promoteFromTag: '$LIVE',
+      });
+    }).toThrow('promoteFromTag must differ from the version tag "$LIVE"');
+  });
+
+  test('should grant access to CDK resource objects, including their KMS keys', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+    const key = new Key(stack, 'TargetKey');
+    const fn = new Function(stack, 'TargetFunction', {
+      code: new InlineCode('exports.handler = async () => {};'),
+      handler: 'index.handler',
+      runtime: Runtime.NODEJS_20_X,
+    });
+    const topic = new Topic(stack, 'TargetTopic', { masterKey: key });
+    const queue = new Queue(stack, 'TargetQueue', { encryptionMasterKey: key });
+
+    const construct = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      lambdaFunctions: [fn],
+      snsTopics: [topic],
+    });
+    construct.grantSendMessages(queue);
+
+    const policies = Template.fromStack(stack).findResources('AWS::IAM::Policy', {
+      Properties: {
+        Roles: [stack.resolve(construct.executionRole.roleName)],
+      },
+    });
+    const statements = Object.values(policies).flatMap(
+      (policy) => policy.Properties.PolicyDocument.Statement
+    );
+    const actions = statements.flatMap((statement) => [statement.Action].flat());
+
+    expect(actions).toEqual(
+      expect.arrayContaining([
+        'lambda:InvokeFunction',
+        'sns:Publish',
+        'sqs:SendMessage',
+        'kms:Decrypt',
+        'kms:GenerateDataKey*',
+      ])
+    );
+    expect(statements).toContainEqual(
+      expect.objectContaining({ Resource: stack.resolve(key.keyArn) })
+    );
+  });
+
+  test('should grant the execution role access to the additional target types', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+    const stateMachine = new StateMachine(stack, 'TargetStateMachine', {
+      definitionBody: DefinitionBody.fromChainable(new Pass(stack, 'Pass')),
+    });
+    const api = RestApi.fromRestApiId(stack, 'TargetApi', 'abc123');
+
+    const construct = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      stateMachines: [stateMachine],
+      eventBuses: [new EventBus(stack, 'TargetBus')],
+      kinesisStreams: [new Stream(stack, 'TargetStream')],
+      dynamoDbTables: [
+        new Table(stack, 'TargetTable', {
+          partitionKey: { name: 'pk', type: AttributeType.STRING },
+        }),
+      ],
+      apiGatewayRoutes: [{ api, method: 'POST', path: '/orders', stage: 'prod' }],
+    });
+    construct.grantReadWriteObjects(new Bucket(stack, 'TargetBucket'), 'exports/*');
+
+    const policies = Template.fromStack(stack).findResources('AWS::IAM::Policy', {
+      Properties: {
+        Roles: [stack.resolve(construct.executionRole.roleName)],
+      },
+    });
+    const statements = Object.values(policies).flatMap(
+      (policy) => policy.Properties.PolicyDocument.Statement
+    );
+    const actions = statements.flatMap((statement) => [statement.Action].flat());
+
+    expect(actions).toEqual(
+      expect.arrayContaining([
+        'states:StartExecution',
+        'events:PutEvents',
+        'kinesis:PutRecords',
+        'dynamodb:PutItem',
+        's3:PutObject',
+        'execute-api:Invoke',
+      ])
+    );
+    expect(statements).toContainEqual(
+      expect.objectContaining({
+        Action: 'execute-api:Invoke',
+        Resource: stack.resolve(api.arnForExecuteApi('POST', '/orders', 'prod')),
+      })
+    );
+  });
+
+  describe('integration permissions', () => {
+    const ordersFunctionArn = 'arn:aws:lambda:us-east-1:123456789012:function:orders';
+    const awsIntegrations = { '/acme/invokeLambda': { actions: ['lambda:InvokeFunction'], resourceArnField: 'functionArn' } };
+    const lambdaWorkflowDefinition = WorkflowDefinitionBuilder.workflow('lambdaWorkflow')
+      .step('invokeOrders', (step) =>
+        step
+          .integration('/acme/invokeLambda', { functionArn: ordersFunctionArn })
+          .retries(1)
+          .timeoutSeconds(30)
+      );
+
+    test('should derive least-privilege statements from AWS integration steps', () => {
+      const app = new App();
+      const stack = new Stack(app, 'TestStack');
+
+      new JustWorkflowItConstructs(stack, {
+        disambiguator: 'test',
+        organizationId: 'org123',
+        workflowDefinitions: [lambdaWorkflowDefinition],
+        awsIntegrations,
+        deriveIntegrationPermissions: true,
+        integrationPermissionCheck: IntegrationPermissionCheck.FAIL,
+      });
+
+      const statements = Object.values(
+        Template.fromStack(stack).findResources('AWS::IAM::Policy')
+      ).flatMap((policy) => policy.Properties.PolicyDocument.Statement);
+      expect(statements).toContainEqual({
+        Action: 'lambda:InvokeFunction',
+        Effect: 'Allow',
+        Resource: ordersFunctionArn,
+      });
+    });
+
+    test('should fail synth for unreachable and unused targets', () => {
+      const app = new App();
+      const stack = new Stack(app, 'TestStack');
+
+      new JustWorkflowItConstructs(stack, {
+        disambiguator: 'test',
+        organizationId: 'org123',
+        workflowDefinitions: [lambdaWorkflowDefinition],
+        awsIntegrations,
+        lambdaArns: ['arn:aws:lambda:us-east-1:123456789012:function:unused'],
+        integrationPermissionCheck: IntegrationPermissionCheck.FAIL,
+      });
+
+      expect(() => app.synth()).toThrow(
+        /Workflow "lambdaWorkflow", step "invokeOrders": executionRole cannot call lambda:InvokeFunction on arn:aws:lambda:us-east-1:123456789012:function:orders[\s\S]*executionRole grants lambda:InvokeFunction on arn:aws:lambda:us-east-1:123456789012:function:unused, but no workflow step uses it/
+      );
+    });
+
+    test('should warn instead of failing in WARN mode', () => {
+      const app = new App();
+      const stack = new Stack(app, 'TestStack');
+
+      new JustWorkflowItConstructs(stack, {
+        disambiguator: 'test',
+        organizationId: 'org123',
+        workflowDefinitions: [lambdaWorkflowDefinition],
+        awsIntegrations,
+        integrationPermissionCheck: IntegrationPermissionCheck.WARN,
+      });
+
+      const warnings = Annotations.fromStack(stack).findWarning(
+        '*',
+        Match.stringLikeRegexp('executionRole cannot call lambda:InvokeFunction')
+      );
+      expect(warnings).toHaveLength(1);
+    });
+
+    test('should report steps missing the configured resource ARN field', () => {
+      const app = new App();
+      const stack = new Stack(app, 'TestStack');
+
+      new JustWorkflowItConstructs(stack, {
+        disambiguator: 'test',
+        organizationId: 'org123',
+        workflowDefinitions: [lambdaWorkflowDefinition],
+        awsIntegrations: { '/acme/invokeLambda': { actions: ['lambda:InvokeFunction'] } },
+        integrationPermissionCheck: IntegrationPermissionCheck.FAIL,
+      });
+
+      expect(() => app.synth()).toThrow(
+        /Workflow "lambdaWorkflow", step "invokeOrders": integration "\/acme\/invokeLambda" is missing config.resourceArn/
+      );
+    });
+
+    test('should require awsIntegrations to derive or check permissions', () => {
+      const app = new App();
+      const stack = new Stack(app, 'TestStack');
+
+      expect(() => new JustWorkflowItConstructs(stack, {
+        disambiguator: 'test',
+        organizationId: 'org123',
+        workflowDefinitions: [lambdaWorkflowDefinition],
+        deriveIntegrationPermissions: true,
+      })).toThrow('deriveIntegrationPermissions and integrationPermissionCheck need awsIntegrations');
+    });
+  });
+
+  test('should trust the account and external ID of a custom environment', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      environment: JustWorkflowItEnvironment.custom({
+        apiBaseUrl: 'https://api.eu.justworkflowit.com',
+        accountId: '111122223333',
+        externalId: ExternalIdStrategy.of('customer-42'),
+      }),
+    });
+
+    const [role] = Object.values(Template.fromStack(stack).findResources('AWS::IAM::Role', {
+      Properties: { RoleName: 'JustWorkflowItExecutionRole' },
+    }));
+    expect(role.Properties.AssumeRolePolicyDocument.Statement).toEqual([
+      expect.objectContaining({
+        Principal: { AWS: stack.resolve(`arn:${stack.partition}:iam::111122223333:root`) },
+        Condition: { StringEquals: { 'sts:ExternalId': 'customer-42' } },
+      }),
+    ]);
+  });
+
+  test('should point the deployer and role trust at a local environment', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack', { env: { account: '123456789012', region: 'us-east-1' } });
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      environment: JustWorkflowItEnvironment.local('http://localhost:4010'),
+    });
+
+    const template = Template.fromStack(stack);
+    const [deployer] = Object.values(template.findResources('AWS::Lambda::Function', {
+      Properties: { FunctionName: 'JustWorkflowItDefinitionDeployer-test' },
+    }));
+    expect(deployer.Properties.Environment.Variables.API_BASE_URL).toBe('http://localhost:4010');
+
+    const [role] = Object.values(template.findResources('AWS::IAM::Role', {
+      Properties: { RoleName: 'JustWorkflowItExecutionRole' },
+    }));
+    expect(role.Properties.AssumeRolePolicyDocument.Statement).toEqual([
+      expect.objectContaining({
+        Principal: { AWS: { 'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, ':iam::123456789012:root']] } },
+        Condition: { StringEquals: { 'sts:ExternalId': 'org123' } },
+      }),
+    ]);
+  });
+
+  test('should apply deployer Lambda options to the deployer and Provider framework Lambdas', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+    const vpc = new Vpc(stack, 'ProxyVpc');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      deployerLambdaOptions: {
+        vpc,
+        architecture: Architecture.ARM_64,
+        memorySize: 512,
+        logRetention: RetentionDays.ONE_MONTH,
+        tracing: Tracing.ACTIVE,
+        tags: { CostCenter: 'platform' },
+      },
+    });
+
+    const template = Template.fromStack(stack);
+    const functions = Object.values(template.findResources('AWS::Lambda::Function', {
+      Properties: { VpcConfig: Match.anyValue() },
+    })).map((fn) => fn.Properties);
+
+    expect(functions).toHaveLength(2);
+    functions.forEach((fn) => {
+      expect(fn.Architectures).toEqual(['arm64']);
+      expect(fn.MemorySize).toBe(512);
+      expect(fn.TracingConfig).toEqual({ Mode: 'Active' });
+      expect(fn.LoggingConfig.LogGroup).toBeDefined();
+      expect(fn.Tags).toContainEqual({ Key: 'CostCenter', Value: 'platform' });
+    });
+    template.hasResourceProperties('AWS::Logs::LogGroup', { RetentionInDays: 30 });
+  });
+
+  test('should pass deploymentConcurrency to the deployer and reject invalid values', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      deploymentConcurrency: 8,
+    });
+
+    const deployers = Template.fromStack(stack).findResources('AWS::Lambda::Function', {
+      Properties: { Environment: { Variables: { DEPLOYMENT_CONCURRENCY: '8' } } },
+    });
+    expect(Object.keys(deployers)).toHaveLength(1);
+
+    expect(() => new JustWorkflowItConstructs(new Stack(new App(), 'InvalidStack'), {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      deploymentConcurrency: 0,
+    })).toThrow('deploymentConcurrency must be a positive integer, got 0');
+  });
+
+  test('should match workflow names exactly unless case-insensitive matching is opted into', () => {
+    const exactStack = new Stack(new App(), 'ExactStack');
+    const caseInsensitiveStack = new Stack(new App(), 'CaseInsensitiveStack');
+
+    new JustWorkflowItConstructs(exactStack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+    });
+    new JustWorkflowItConstructs(caseInsensitiveStack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      workflowNameMatching: WorkflowNameMatching.CASE_INSENSITIVE,
+    });
+
+    const deployersMatching = (stack: Stack, matching: string) => Template.fromStack(stack).findResources(
+      'AWS::Lambda::Function',
+      { Properties: { Environment: { Variables: { WORKFLOW_NAME_MATCHING: matching } } } }
+    );
+    expect(Object.keys(deployersMatching(exactStack, 'EXACT'))).toHaveLength(1);
+    expect(Object.keys(deployersMatching(caseInsensitiveStack, 'CASE_INSENSITIVE'))).toHaveLength(1);
+  });
+
+  test('should continue past failing definitions and fail only on critical workflows', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      deploymentFailureMode: DeploymentFailureMode.CONTINUE,
+      criticalWorkflows: ['validWorkflow'],
+    });
+
+    const deployers = Template.fromStack(stack).findResources('AWS::Lambda::Function', {
+      Properties: {
+        Environment: {
+          Variables: {
+            DEPLOYMENT_FAILURE_MODE: 'CONTINUE',
+            CRITICAL_WORKFLOWS: JSON.stringify(['validWorkflow']),
+          },
+        },
+      },
+    });
+    expect(Object.keys(deployers)).toHaveLength(1);
+
+    expect(() => new JustWorkflowItConstructs(new Stack(app, 'FailFastStack'), {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      criticalWorkflows: ['validWorkflow'],
+    })).toThrow('criticalWorkflows only applies with deploymentFailureMode CONTINUE');
+    expect(() => new JustWorkflowItConstructs(new Stack(app, 'UnknownStack'), {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      deploymentFailureMode: DeploymentFailureMode.CONTINUE,
+      criticalWorkflows: ['missingWorkflow'],
+    })).toThrow('criticalWorkflows lists unknown workflows: missingWorkflow');
+  });
+
+  test('should pass the API retry policy to the deployer in milliseconds', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      apiRetryPolicy: {
+        maxAttempts: 4,
+        baseDelay: Duration.millis(500),
+        operations: {
+          registerWorkflowVersion: { maxAttempts: 6, maxDelay: Duration.seconds(30) },
+        },
+      },
+    });
+
+    const deployer = Object.values(Template.fromStack(stack).findResources('AWS::Lambda::Function', {
+      Properties: { Environment: { Variables: { API_RETRY_POLICY: Match.anyValue() } } },
+    }))[0];
+    expect(JSON.parse(deployer.Properties.Environment.Variables.API_RETRY_POLICY)).toEqual({
+      maxAttempts: 4,
+      baseDelayMs: 500,
+      operations: { registerWorkflowVersion: { maxAttempts: 6, maxDelayMs: 30000 } },
+    });
+
+    expect(() => new JustWorkflowItConstructs(new Stack(new App(), 'InvalidStack'), {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      apiRetryPolicy: { operations: { listWorkflows: { maxAttempts: 0 } } },
+    })).toThrow('apiRetryPolicy.operations.listWorkflows.maxAttempts must be a positive integer, got 0');
+  });
+
+  test('should cache the auth token for authTokenCacheTtl', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      authTokenCacheTtl: Duration.minutes(1),
+    });
+
+    const deployers = Template.fromStack(stack).findResources('AWS::Lambda::Function', {
+      Properties: { Environment: { Variables: { AUTH_TOKEN_CACHE_TTL_SECONDS: '60' } } },
+    });
+    expect(Object.keys(deployers)).toHaveLength(1);
+  });
+
+  test('should configure client credentials auth', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      auth: JustWorkflowItAuth.clientCredentials({
+        tokenEndpoint: 'https://auth.example.com/oauth2/token',
+        scopes: ['workflows/read', 'workflows/write'],
+      }),
+    });
+
+    const template = Template.fromStack(stack);
+    const deployers = template.findResources('AWS::Lambda::Function', {
+      Properties: {
+        Environment: {
+          Variables: {
+            AUTH_MODE: 'CLIENT_CREDENTIALS',
+            OAUTH_TOKEN_ENDPOINT: 'https://auth.example.com/oauth2/token',
+            OAUTH_SCOPES: 'workflows/read workflows/write',
+          },
+        },
+      },
+    });
+    expect(Object.keys(deployers)).toHaveLength(1);
+    const secrets = Object.values(template.findResources('AWS::SecretsManager::Secret'));
+    expect(secrets[0].Properties.Description).toContain('"clientId"');
+
+    expect(() => JustWorkflowItAuth.clientCredentials({ tokenEndpoint: 'http://auth.example.com/token' }))
+      .toThrow('OAuth token endpoint "http://auth.example.com/token" must use https');
+  });
+
+  test('should redeploy the definitions when the auth secret is updated', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      redeployOnAuthSecretUpdate: true,
+    });
+
+    const rules = Object.values(Template.fromStack(stack).findResources('AWS::Events::Rule'));
+    expect(rules).toHaveLength(1);
+    const { EventPattern, Targets } = rules[0].Properties;
+    expect(EventPattern.detail.eventName).toEqual(['PutSecretValue', 'UpdateSecret']);
+    expect(EventPattern.detail.requestParameters.secretId).toHaveLength(2);
+    expect(EventPattern.detail.requestParameters.secretId[0]).toEqual({ prefix: '/justworkflowit/api/authToken' });
+    const deployers = Template.fromStack(stack).findResources('AWS::Lambda::Function', {
+      Properties: { Environment: { Variables: { REDEPLOY_ON_AUTH_SECRET_UPDATE: 'true' } } },
+    });
+    expect(Object.keys(deployers)).toHaveLength(1);
+    const input = JSON.parse(Targets[0].Input);
+    expect(input.RequestType).toBe('Redeploy');
+    expect(Object.keys(input.ResourceProperties.DefinitionKeys)).toEqual(['validWorkflow']);
+
+    const warnings = Annotations.fromStack(stack).findWarning(
+      '*',
+      Match.stringLikeRegexp('redeployOnAuthSecretUpdate matches Secrets Manager calls recorded by CloudTrail')
+    );
+    expect(warnings).toHaveLength(1);
+
+    expect(() => new JustWorkflowItConstructs(new Stack(app, 'PerWorkflowStack'), {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      deploymentMode: DefinitionDeploymentMode.PER_WORKFLOW,
+      redeployOnAuthSecretUpdate: true,
+    })).toThrow('redeployOnAuthSecretUpdate only works with deploymentMode BATCH');
+  });
+
+  test('should match updates of an imported secret by name or by ARN without its suffix', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack', { env: { account: '123456789012', region: 'us-east-1' } });
+
+    new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      authSecret: Secret.fromSecretNameV2(stack, 'SharedSecret', '/central/justworkflowit/token'),
+      redeployOnAuthSecretUpdate: true,
+    });
+
+    const rules = Object.values(Template.fromStack(stack).findResources('AWS::Events::Rule'));
+    expect(rules[0].Properties.EventPattern.detail.requestParameters.secretId).toEqual([
+      { prefix: '/central/justworkflowit/token' },
+      {
+        prefix: {
+          'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, ':secretsmanager:us-east-1:123456789012:secret:/central/justworkflowit/token']],
+        },
+      },
+    ]);
+  });
+
+  test('should reject redeployOnAuthSecretUpdate without an auth secret', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+    const parameter = StringParameter.fromSecureStringParameterAttributes(
+      stack,
+      'TokenParameter',
+      { parameterName: '/central/justworkflowit/token' }
+    );
+
+    expect(() => new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      authTokenParameter: parameter,
+      redeployOnAuthSecretUpdate: true,
+    })).toThrow('redeployOnAuthSecretUpdate needs an auth secret');
+  });
+
+  test('should alarm on the placeholder token with WARN_WITH_ALARM', () => {
+    const app = new App();
+    const stack = new Stack(app, 'TestStack');
+
+    const integration = new JustWorkflowItConstructs(stack, {
+      disambiguator: 'test',
+      organizationId: 'org123',
+      workflowDefinitions: [validWorkflowDefinition],
+      placeholderTokenBehavior: PlaceholderTokenBehavior.WARN_WITH_ALARM,
+    });
+
+    expect(integration.placeholderTokenAlarm).toBeDefined();
+    const template = Template.fromStack(stack);
+    const alarms = Object.values(template.findResources('AWS::CloudWatch::Alarm'));
+    expect(alarms).toHaveLength(1);
+    expect(alarms[0].Properties).toMatchObject({
+      Namespace: 'JustWorkflowIt/DefinitionDeployer',
+      MetricName: 'PlaceholderTokenDetected',
+      Threshold: 1,
+      TreatMissingData: 'ignore',
+    });
+    const deployers = template.findResources('AWS::Lambda::Function', {
+      Properties: { Environment: { Variables: { PLACEHOLDER_TOKEN_BEHAVIOR: 'WARN_WITH_ALARM' } } },
+    });
+    expect(Object.keys(deployers)).toHaveLength(1);
+  });
 });
@@ -0,0 +1,43 @@
+import {
+  JustWorkflowItEnvironment,
+  JustWorkflowItEnvironmentProps,
+} from '../../constructs/justWorkflowItEnvironment';
+
+describe('JustWorkflowItEnvironment', () => {
+  test('should default production to the organization ID as external ID', () => {
+    expect(JustWorkflowItEnvironment.PRODUCTION.apiBaseUrl).toBe('https://api.justworkflowit.com');
+    expect(JustWorkflowItEnvironment.PRODUCTION.accountId).toBe('588738588052');
+    expect(JustWorkflowItEnvironment.PRODUCTION.externalId.resolve('org123')).toBe('org123');
+  });
+
+  test('should trust the stack account for local environments', () => {
+    const environment = JustWorkflowItEnvironment.local();
+
+    expect(environment.apiBaseUrl).toBe('http://localhost:4010');
+    expect(environment.accountId).toBeUndefined();
+  });
+
+  test('should reject malformed API base URLs', () => {
+    expect(() =>
+      JustWorkflowItEnvironment.custom({ apiBaseUrl: 'api.justworkflowit.com', accountId: '111122223333' })
+    ).toThrow('Invalid JustWorkflowIt API base URL "api.justworkflowit.com"');
+  });
+
+  test('should reject plain http for remote hosts', () => {
+    expect(() =>
+      JustWorkflowItEnvironment.custom({
+        apiBaseUrl: 'http://staging.justworkflowit.com',
+        accountId: '111122223333',
+      })
+    ).toThrow('must use https unless it points at a local host');
+  });
+
+  test('should require an account ID for custom environments', () => {
+    // As a JavaScript caller would pass it
+    const props = { apiBaseUrl: 'https://api.eu.justworkflowit.com' } as JustWorkflowItEnvironmentProps;
+
+    expect(() => JustWorkflowItEnvironment.custom(props)).toThrow(
+      'JustWorkflowIt environment "https://api.eu.justworkflowit.com" needs the accountId executionRole trusts'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { WorkflowDefinitionBuilder } from '../../constructs/workflowDefinitionBuilder';
+
+describe('WorkflowDefinitionBuilder', () => {
+  const objectSchema = {
+    type: 'object',
+    properties: {},
+    additionalProperties: false,
+  };
+
+  test('should build a definition with $refs and transitions', () => {
+    const definition = WorkflowDefinitionBuilder.workflow('builtWorkflow')
+      .definition('step1Input', objectSchema)
+      .definition('step1Output', objectSchema)
+      .step('step1', (step) =>
+        step
+          .integration('testIntegration')
+          .input('step1Input')
+          .output('step1Output')
+          .retries(2)
+          .timeoutSeconds(1000)
+          .transitionTo('step2')
+      )
+      .step('step2', (step) =>
+        step
+          .integration('/justworkflowit/runMarketplaceJob', {
+            publisherOrgKey: 'some-publisher',
+          })
+          .retries(1)
+          .timeoutSeconds(60)
+      )
+      .build();
+
+    expect(definition).toEqual({
+      workflowName: 'builtWorkflow',
+      steps: [
+        {
+          name: 'step1',
+          retries: 2,
+          timeoutSeconds: 1000,
+          transitionToStep: 'step2',
+          integrationDetails: {
+            type: 'testIntegration',
+            inputDefinition: { $ref: '#/definitions/step1Input' },
+            outputDefinition: { $ref: '#/definitions/step1Output' },
+          },
+        },
+        {
+          name: 'step2',
+          retries: 1,
+          timeoutSeconds: 60,
+          transitionToStep: null,
+          integrationDetails: {
+            type: '/justworkflowit/runMarketplaceJob',
+            config: { publisherOrgKey: 'some-publisher' },
+          },
+        },
+      ],
+      definitions: {
+        step1Input: objectSchema,
+        step1Output: objectSchema,
+      },
+    });
+  });
+
+  test('should reject a transition to an unknown step', () => {
+    const builder = WorkflowDefinitionBuilder.workflow('badTransition').step(
+      'step1',
+      (step) =>
+        step
+          .integration('testIntegration')
+          .retries(2)
+          .timeoutSeconds(1000)
+          .transitionTo('stepTwo')
+    );
+
+    expect(() => builder.build()).toThrow(
+      'Workflow "badTransition", step "step1": transitionToStep references unknown step "stepTwo"'
+    );
+  });
+
+  test('should reject a $ref to an undeclared definition', () => {
+    const builder = WorkflowDefinitionBuilder.workflow('badRef')
+      .definition('step1Input', objectSchema)
+      .step('step1', (step) =>
+        step
+          .integration('testIntegration')
+          // Simulates an untyped caller passing a misspelled definition name
+          .input('step1Inptu' as 'step1Input')
+          .retries(2)
+          .timeoutSeconds(1000)
+      );
+
+    expect(() => builder.build()).toThrow(
+      /\$ref "#\/definitions\/step1Inptu" references an undeclared definition/
+    );
+  });
+
+  test('should reject duplicate step names', () => {
+    const configure = WorkflowDefinitionBuilder.workflow('duplicateSteps').step(
+      'step1',
+      (step) => step.integration('testIntegration').retries(2).timeoutSeconds(1)
+    );
+
+    expect(() =>
+      configure.step('step1', (step) =>
+        step.integration('testIntegration').retries(2).timeoutSeconds(1)
+      )
+    ).toThrow('Workflow "duplicateSteps": step "step1" is declared more than once');
+  });
+
+  test('should reject a step without an integration type', () => {
+    const builder = WorkflowDefinitionBuilder.workflow('noIntegration').step(
+      'step1',
+      (step) => step.retries(2).timeoutSeconds(1000)
+    );
+
+    expect(() => builder.build()).toThrow(/missing integration type/);
+  });
+});
@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkflowDefinitionSource } from '../../constructs/workflowDefinitionSource';
+
+describe('WorkflowDefinitionSource', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-definitions-'));
+    fs.mkdirSync(path.join(directory, 'nested'));
+    fs.writeFileSync(path.join(directory, 'b.json'), '{"workflowName":"b"}');
+    fs.writeFileSync(path.join(directory, 'a.json'), '{"workflowName":"a"}');
+    fs.writeFileSync(path.join(directory, 'notes.md'), '# not a workflow');
+    fs.writeFileSync(path.join(directory, 'nested', 'c.json'), '{"workflowName":"c"}');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should read a single file', () => {
+    const filePath = path.join(directory, 'a.json');
+
+    expect(WorkflowDefinitionSource.fromFile(filePath).resolve()).toEqual([
+      { filePath, definition: '{"workflowName":"a"}' },
+    ]);
+  });
+
+  test('should name the path when a file cannot be read', () => {
+    const filePath = path.join(directory, 'missing.json');
+
+    expect(() => WorkflowDefinitionSource.fromFile(filePath).resolve()).toThrow(
+      `Could not read workflow definition file ${filePath}`
+    );
+  });
+
+  test('should read top-level json files in path order by default', () => {
+    const files = WorkflowDefinitionSource.fromDirectory(directory).resolve();
+
+    expect(files.map((file) => file.filePath)).toEqual([
+      path.join(directory, 'a.json'),
+      path.join(directory, 'b.json'),
+    ]);
+  });
+
+  test('should match nested files with a ** glob', () => {
+    const files = WorkflowDefinitionSource.fromDirectory(directory, {
+      glob: '**/*.json',
+    }).resolve();
+
+    expect(files.map((file) => file.filePath)).toEqual([
+      path.join(directory, 'a.json'),
+      path.join(directory, 'b.json'),
+      path.join(directory, 'nested', 'c.json'),
+    ]);
+  });
+
+  test('should fail when no files match the glob', () => {
+    expect(() =>
+      WorkflowDefinitionSource.fromDirectory(directory, { glob: '*.yaml' }).resolve()
+    ).toThrow(`No workflow definitions matching "*.yaml" found in ${directory}`);
+  });
+});
@@ -0,0 +1,519 @@
+import { Readable } from 'stream';
+import { CloudFormationCustomResourceEvent } from 'aws-lambda';
+
+type FakeWorkflow = { workflowId: string; name: string; versions: string[]; tags: Record<string, string> };
+
+const mockS3Send = jest.fn();
+const mockRefreshAuthTokenValue = jest.fn();
+const mockPutMetrics = jest.fn();
+const mockApi = {
+  listWorkflows: jest.fn(),
+  registerWorkflow: jest.fn(),
+  registerWorkflowVersion: jest.fn(),
+  getTaggedWorkflowVersion: jest.fn(),
+  setWorkflowVersionTag: jest.fn(),
+  removeWorkflowVersionTag: jest.fn(),
+  archiveWorkflow: jest.fn(),
+};
+
+jest.mock('@aws-sdk/client-s3', () => ({
+  S3Client: jest.fn(() => ({ send: mockS3Send })),
+  GetObjectCommand: jest.fn((input) => ({ name: 'GetObject', input })),
+  PutObjectCommand: jest.fn((input) => ({ name: 'PutObject', input })),
+}));
+
+// Only the exceptions module loads it, for its error classes
+jest.mock('@justworkflowit/api-client', () => ({}), { virtual: true });
+
+jest.mock('../../lambda/justWorkflowItApiClient', () => ({
+  getApiClient: () => mockApi,
+  refreshAuthTokenValue: () => mockRefreshAuthTokenValue(),
+}));
+
+jest.mock('../../lambda/embeddedMetrics', () => ({
+  putMetrics: (...args: unknown[]) => mockPutMetrics(...args),
+}));
+
+const ORGANIZATION_ID = 'org123';
+
+// In-memory S3 bucket, by key
+let objects: Record<string, string>;
+// In-memory JustWorkflowIt organization
+let workflows: FakeWorkflow[];
+
+const originalEnv = process.env;
+
+const definitionKey = (workflowName: string, revision = 1) => `definitions/${workflowName}-${revision}.json`;
+
+const putDefinition = (workflowName: string, revision = 1): string => {
+  const key = definitionKey(workflowName, revision);
+  objects[key] = JSON.stringify({ workflowName, revision, steps: [] });
+  return key;
+};
+
+const addWorkflow = (name: string, liveVersionId?: string): FakeWorkflow => {
+  const workflow: FakeWorkflow = {
+    workflowId: `wf-${workflows.length + 1}`,
+    name,
+    versions: liveVersionId ? [liveVersionId] : [],
+    tags: liveVersionId ? { $LIVE: liveVersionId } : {},
+  };
+  workflows.push(workflow);
+  return workflow;
+};
+
+const workflowById = (workflowId: string): FakeWorkflow => {
+  const workflow = workflows.find((w) => w.workflowId === workflowId);
+  if (!workflow) throw new Error(`Unknown workflow ${workflowId}`);
+  return workflow;
+};
+
+const cfnEvent = (
+  RequestType: 'Create' | 'Update' | 'Delete',
+  properties: Record<string, unknown>,
+  oldProperties?: Record<string, unknown>,
+  logicalResourceId = 'JustWorkflowItDefinitionDeployerTrigger'
+) =>
+  ({
+    RequestType,
+    ServiceToken: 'service-token',
+    ResponseURL: 'https://cloudformation-custom-resource-response.example.com',
+    StackId: 'arn:aws:cloudformation:us-east-1:123456789012:stack/TestStack/guid',
+    RequestId: 'request-id',
+    LogicalResourceId: logicalResourceId,
+    ResourceType: 'AWS::CloudFormation::CustomResource',
+    ResourceProperties: { ServiceToken: 'service-token', ...properties },
+    ...(RequestType !== 'Create' && { PhysicalResourceId: 'JustWorkflowItIntegrationTrigger' }),
+    ...(oldProperties && { OldResourceProperties: { ServiceToken: 'service-token', ...oldProperties } }),
+  }) as CloudFormationCustomResourceEvent;
+
+// Loaded after the test has set its environment, which the deployer partly reads on import
+const loadDeployer = async () => (await import('../../lambda/definitionDeployerLambda')).handler;
+
+beforeEach(async () => {
+  jest.resetModules();
+  objects = {};
+  workflows = [];
+  process.env = {
+    ...originalEnv,
+    DEFINITION_BUCKET: 'definition-bucket',
+    ORGANIZATION_ID,
+    AUTH_TOKEN_SOURCE_ID: 'JustWorkflowItAuthToken',
+  };
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  const { NotFoundError } = await import('../../lambda/justWorkflowItApiExceptions');
+  const notFound = (message: string) => Promise.reject(new NotFoundError(message, { statusCode: 404 }));
+
+  mockRefreshAuthTokenValue.mockResolvedValue('real-token');
+
+  mockS3Send.mockImplementation((command: { name: string; input: { Key: string; Body?: string } }) => {
+    if (command.name === 'PutObject') {
+      objects[command.input.Key] = command.input.Body ?? '';
+      return Promise.resolve({});
+    }
+    const body = objects[command.input.Key];
+    if (body === undefined) {
+      return Promise.reject(Object.assign(new Error('The specified key does not exist.'), { name: 'NoSuchKey' }));
+    }
+    return Promise.resolve({ Body: Readable.from([Buffer.from(body)]) });
+  });
+
+  // Two workflows per page, so every listing with more than two workflows is paginated
+  mockApi.listWorkflows.mockImplementation(({ nextToken }: { nextToken?: string }) => {
+    const start = nextToken ? Number(nextToken) : 0;
+    return Promise.resolve({
+      workflows: workflows.slice(start, start + 2).map(({ workflowId, name }) => ({ workflowId, name })),
+      nextToken: start + 2 < workflows.length ? String(start + 2) : undefined,
+    });
+  });
+  mockApi.registerWorkflow.mockImplementation(({ name }: { name: string }) =>
+    Promise.resolve({ workflowId: addWorkflow(name).workflowId })
+  );
+  mockApi.registerWorkflowVersion.mockImplementation(({ workflowId }: { workflowId: string }) => {
+    const workflow = workflowById(workflowId);
+    const versionId = `${workflowId}-v${workflow.versions.length + 1}`;
+    workflow.versions.push(versionId);
+    return Promise.resolve({ versionId });
+  });
+  mockApi.getTaggedWorkflowVersion.mockImplementation(({ workflowId, tag }: { workflowId: string; tag: string }) => {
+    const versionId = workflowById(workflowId).tags[tag];
+    return versionId ? Promise.resolve({ versionId }) : notFound(`No version tagged ${tag}`);
+  });
+  mockApi.setWorkflowVersionTag.mockImplementation(
+    ({ workflowId, tag, versionId }: { workflowId: string; tag: string; versionId: string }) => {
+      workflowById(workflowId).tags[tag] = versionId;
+      return Promise.resolve({});
+    }
+  );
+  mockApi.removeWorkflowVersionTag.mockImplementation(({ workflowId, tag }: { workflowId: string; tag: string }) => {
+    const workflow = workflowById(workflowId);
+    if (!workflow.tags[tag]) return notFound(`No version tagged ${tag}`);
+    delete workflow.tags[tag];
+    return Promise.resolve({});
+  });
+  mockApi.archiveWorkflow.mockResolvedValue({});
+});
+
+afterEach(() => {
+  process.env = originalEnv;
+  jest.restoreAllMocks();
+  jest.resetAllMocks();
+});
+
+describe('definitionDeployerLambda', () => {
+  describe('auth token', () => {
+    test('should read the auth token fresh instead of trusting a cached placeholder on Redeploy', async () => {
+      const handler = await loadDeployer();
+      const key = putDefinition('orders');
+
+      const result = await handler({ RequestType: 'Redeploy', ResourceProperties: { DefinitionKeys: { orders: key } } });
+
+      expect(mockRefreshAuthTokenValue).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ Message: 'Ran Redeploy successfully: 1 created' });
+      expect(workflows[0].tags.$LIVE).toBe('wf-1-v1');
+    });
+
+    test('should read the auth token fresh on an Update that only bumps the deployment revision', async () => {
+      const handler = await loadDeployer();
+      const key = putDefinition('orders');
+
+      const result = await handler(
+        cfnEvent('Update', { DefinitionKeys: { orders: key }, DeploymentRevision: '2' }, { DefinitionKeys: { orders: key } })
+      );
+
+      expect(mockRefreshAuthTokenValue).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ Data: { Message: 'Ran Update successfully: 1 created' } });
+    });
+  });
+
+  describe('placeholder token', () => {
+    beforeEach(() => {
+      mockRefreshAuthTokenValue.mockResolvedValue('REPLACE_ME_WITH_JUST_WORKFLOW_IT_AUTH_TOKEN');
+    });
+
+    test('should skip the deployment by default', async () => {
+      const handler = await loadDeployer();
+
+      const result = await handler(cfnEvent('Create', { DefinitionKeys: { orders: putDefinition('orders') } }));
+
+      expect(result).toMatchObject({
+        Data: { Message: 'Skipped Create - placeholder token detected', PlaceholderTokenDetected: 'true' },
+      });
+      expect(mockApi.listWorkflows).not.toHaveBeenCalled();
+      expect(mockPutMetrics).not.toHaveBeenCalled();
+    });
+
+    test('should skip the deployment and publish the PlaceholderTokenDetected metric with WARN_WITH_ALARM', async () => {
+      process.env.PLACEHOLDER_TOKEN_BEHAVIOR = 'WARN_WITH_ALARM';
+      const handler = await loadDeployer();
+
+      const result = await handler(cfnEvent('Create', { DefinitionKeys: { orders: putDefinition('orders') } }));
+
+      expect(result).toMatchObject({ Data: { PlaceholderTokenDetected: 'true' } });
+      expect(mockPutMetrics).toHaveBeenCalledWith(
+        { PlaceholderTokenDetected: { value: 1, unit: 'Count' } },
+        { RequestType: 'Create' }
+      );
+      expect(mockApi.registerWorkflow).not.toHaveBeenCalled();
+    });
+
+    test('should clear the alarm with a real token with WARN_WITH_ALARM', async () => {
+      process.env.PLACEHOLDER_TOKEN_BEHAVIOR = 'WARN_WITH_ALARM';
+      mockRefreshAuthTokenValue.mockResolvedValue('real-token');
+      const handler = await loadDeployer();
+
+      await handler(cfnEvent('Create', { DefinitionKeys: { orders: putDefinition('orders') } }));
+
+      expect(mockPutMetrics).toHaveBeenCalledWith(
+        { PlaceholderTokenDetected: { value: 0, unit: 'Count' } },
+        { RequestType: 'Create' }
+      );
+      expect(workflows[0].tags.$LIVE).toBe('wf-1-v1');
+    });
+
+    test('should fail Create and Update but let Delete through with FAIL', async () => {
+      process.env.PLACEHOLDER_TOKEN_BEHAVIOR = 'FAIL';
+      const handler = await loadDeployer();
+      const key = putDefinition('orders');
+
+      await expect(handler(cfnEvent('Create', { DefinitionKeys: { orders: key } }))).rejects.toThrow(
+        'The JustWorkflowIt auth secret still holds the placeholder token'
+      );
+      await expect(handler(cfnEvent('Update', { DefinitionKeys: { orders: key } }, { DefinitionKeys: {} }))).rejects.toThrow(
+        'The JustWorkflowIt auth secret still holds the placeholder token'
+      );
+      await expect(handler(cfnEvent('Delete', { DefinitionKeys: { orders: key } }))).resolves.toMatchObject({
+        Data: { Message: 'Skipped Delete - placeholder token detected' },
+      });
+    });
+  });
+
+  describe('workflow listing', () => {
+    test('should find workflows past the first page and list them once per deployment', async () => {
+      const handler = await loadDeployer();
+      ['billing', 'shipping', 'returns', 'invoices'].forEach((name) => addWorkflow(name));
+      addWorkflow('orders', 'wf-5-v1');
+      const ordersKey = putDefinition('orders');
+      const invoicesKey = putDefinition('invoices');
+
+      const result = await handler(cfnEvent('Create', { DefinitionKeys: { orders: ordersKey, invoices: invoicesKey } }));
+
+      expect(mockApi.listWorkflows).toHaveBeenCalledTimes(3);
+      expect(mockApi.listWorkflows).toHaveBeenLastCalledWith({ organizationId: ORGANIZATION_ID, nextToken: '4' });
+      expect(mockApi.registerWorkflow).not.toHaveBeenCalled();
+      expect(workflowById('wf-4').tags.$LIVE).toBe('wf-4-v1');
+      expect(workflowById('wf-5').tags.$LIVE).toBe('wf-5-v2');
+      expect(result).toMatchObject({ Data: { Message: 'Ran Create successfully: 2 registered' } });
+    });
+  });
+
+  describe('workflow name matching', () => {
+    test('should only match the exact name by default', async () => {
+      const handler = await loadDeployer();
+      addWorkflow('Orders', 'wf-1-v1');
+
+      await handler(cfnEvent('Create', { DefinitionKeys: { orders: putDefinition('orders') } }));
+
+      expect(mockApi.registerWorkflow).toHaveBeenCalledWith(expect.objectContaining({ name: 'orders' }));
+      expect(workflowById('wf-1').tags.$LIVE).toBe('wf-1-v1');
+    });
+
+    test('should match names regardless of case with CASE_INSENSITIVE', async () => {
+      process.env.WORKFLOW_NAME_MATCHING = 'CASE_INSENSITIVE';
+      const handler = await loadDeployer();
+      addWorkflow('Orders', 'wf-1-v1');
+
+      await handler(cfnEvent('Create', { DefinitionKeys: { orders: putDefinition('orders') } }));
+
+      expect(mockApi.registerWorkflow).not.toHaveBeenCalled();
+      expect(workflowById('wf-1').tags.$LIVE).toBe('wf-1-v2');
+    });
+
+    test('should fail instead of guessing when several workflows match', async () => {
+      process.env.WORKFLOW_NAME_MATCHING = 'CASE_INSENSITIVE';
+      const handler = await loadDeployer();
+      addWorkflow('Orders');
+      addWorkflow('ORDERS');
+
+      await expect(handler(cfnEvent('Create', { DefinitionKeys: { orders: putDefinition('orders') } }))).rejects.toThrow(
+        'Workflow name "orders" matches 2 workflows: "Orders" (wf-1), "ORDERS" (wf-2)'
+      );
+      expect(mockApi.registerWorkflowVersion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deployment failures', () => {
+    const definitionsOf = (names: string[]) => Object.fromEntries(names.map((name) => [name, putDefinition(name)]));
+
+    const failRegistrationOf = (failingName: string) =>
+      mockApi.registerWorkflow.mockImplementation(({ name }: { name: string }) =>
+        (name === failingName
+          ? Promise.reject(new Error(`${name} is invalid`))
+          : Promise.resolve({ workflowId: addWorkflow(name).workflowId }))
+      );
+
+    test('should keep at most DEPLOYMENT_CONCURRENCY workflows in flight', async () => {
+      process.env.DEPLOYMENT_CONCURRENCY = '2';
+      const handler = await loadDeployer();
+      const definitionKeys = definitionsOf(['a', 'b', 'c', 'd', 'e']);
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockApi.registerWorkflow.mockImplementation(({ name }: { name: string }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        return new Promise((resolve) => setImmediate(() => {
+          inFlight--;
+          resolve({ workflowId: addWorkflow(name).workflowId });
+        }));
+      });
+
+      await handler(cfnEvent('Create', { DefinitionKeys: definitionKeys }));
+
+      expect(mockApi.registerWorkflow).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(2);
+    });
+
+    test('should stop starting workflows after the first failure by default', async () => {
+      process.env.DEPLOYMENT_CONCURRENCY = '1';
+      const handler = await loadDeployer();
+      failRegistrationOf('billing');
+      const definitionKeys = definitionsOf(['orders', 'billing', 'invoices']);
+
+      await expect(handler(cfnEvent('Create', { DefinitionKeys: definitionKeys }))).rejects.toThrow('billing is invalid');
+      expect(mockApi.registerWorkflow).toHaveBeenCalledTimes(2);
+    });
+
+    test('should deploy the other workflows and succeed when a non-critical workflow fails with CONTINUE', async () => {
+      process.env.DEPLOYMENT_FAILURE_MODE = 'CONTINUE';
+      process.env.CRITICAL_WORKFLOWS = JSON.stringify(['orders']);
+      const handler = await loadDeployer();
+      failRegistrationOf('billing');
+      const definitionKeys = definitionsOf(['orders', 'billing', 'invoices']);
+
+      const result = await handler(cfnEvent('Create', { DefinitionKeys: definitionKeys }));
+
+      expect(result).toMatchObject({ Data: { Message: 'Ran Create successfully: 2 created, 1 failed' } });
+      expect(JSON.parse((result as { Data: Record<string, string> }).Data.Summary)).toEqual({
+        outcomes: { created: ['orders', 'invoices'], failed: ['billing'] },
+        errors: { billing: 'billing is invalid' },
+      });
+    });
+
+    test('should fail after attempting every workflow when a critical workflow fails with CONTINUE', async () => {
+      process.env.DEPLOYMENT_FAILURE_MODE = 'CONTINUE';
+      process.env.CRITICAL_WORKFLOWS = JSON.stringify(['billing']);
+      const handler = await loadDeployer();
+      failRegistrationOf('billing');
+      const definitionKeys = definitionsOf(['orders', 'billing', 'invoices']);
+
+      await expect(handler(cfnEvent('Create', { DefinitionKeys: definitionKeys }))).rejects.toThrow(
+        'Deployment failed for billing: billing is invalid'
+      );
+      expect(mockApi.registerWorkflow).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('response', () => {
+    test('should return the IDs of every batch workflow as attributes', async () => {
+      process.env.DEPLOYMENT_FAILURE_MODE = 'CONTINUE';
+      process.env.CRITICAL_WORKFLOWS = JSON.stringify(['orders']);
+      const handler = await loadDeployer();
+      mockApi.registerWorkflow.mockImplementation(({ name }: { name: string }) =>
+        (name === 'invoices'
+          ? Promise.reject(new Error('Definition of invoices is invalid'))
+          : Promise.resolve({ workflowId: addWorkflow(name).workflowId }))
+      );
+
+      const result = await handler(
+        cfnEvent('Create', { DefinitionKeys: { orders: putDefinition('orders'), invoices: putDefinition('invoices') } })
+      );
+
+      expect(result).toMatchObject({
+        Data: {
+          'Workflows.orders.WorkflowId': 'wf-1',
+          'Workflows.orders.VersionId': 'wf-1-v1',
+          'Workflows.invoices.WorkflowId': '',
+          'Workflows.invoices.VersionId': '',
+        },
+      });
+    });
+
+    test('should return empty workflow attributes while the placeholder token is in place', async () => {
+      mockRefreshAuthTokenValue.mockResolvedValue('REPLACE_ME_WITH_JUST_WORKFLOW_IT_AUTH_TOKEN');
+      const handler = await loadDeployer();
+
+      const result = await handler(cfnEvent('Create', { DefinitionKeys: { orders: putDefinition('orders') } }));
+
+      expect(result).toMatchObject({
+        Data: { PlaceholderTokenDetected: 'true', 'Workflows.orders.WorkflowId': '', 'Workflows.orders.VersionId': '' },
+      });
+    });
+
+    test('should keep the response of a large batch under the 4 KB custom resource limit', async () => {
+      process.env.DEPLOYMENT_FAILURE_MODE = 'CONTINUE';
+      process.env.CRITICAL_WORKFLOWS = JSON.stringify(['orders']);
+      const handler = await loadDeployer();
+      const definitionKeys = Object.fromEntries(
+        Array.from({ length: 20 }, (_, i) => `notify-${i}`).map((name) => [name, putDefinition(name)])
+      );
+      mockApi.registerWorkflow.mockImplementation(({ name }: { name: string }) =>
+        (Number(name.split('-')[1]) % 2 === 1
+          ? Promise.reject(new Error(`Definition of ${name} is invalid: ${'step is missing an integration; '.repeat(20)}`))
+          : Promise.resolve({ workflowId: addWorkflow(name).workflowId }))
+      );
+
+      const result = await handler(cfnEvent('Create', { DefinitionKeys: definitionKeys }));
+
+      expect(JSON.stringify((result as { Data: unknown }).Data).length).toBeLessThanOrEqual(3072);
+      expect(result).toMatchObject({
+        Data: { Message: 'Ran Create successfully: 10 created, 10 failed', 'Workflows.notify-0.VersionId': 'wf-1-v1' },
+      });
+      const summary = JSON.parse((result as { Data: Record<string, string> }).Data.Summary);
+      expect(summary).toMatchObject({ counts: { created: 10, failed: 10 }, truncated: true });
+    });
+
+    test('should fail before deploying a batch whose workflow IDs do not fit in the response', async () => {
+      const handler = await loadDeployer();
+      const definitionKeys = Object.fromEntries(
+        Array.from({ length: 60 }, (_, i) => `customer-notification-workflow-${i}`).map((name) => [name, putDefinition(name)])
+      );
+
+      await expect(handler(cfnEvent('Create', { DefinitionKeys: definitionKeys }))).rejects.toThrow(
+        "The IDs of 60 workflows don't fit in CloudFormation's 4 KB custom resource response. Deploy them with deploymentMode PER_WORKFLOW"
+      );
+      expect(mockApi.registerWorkflow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rollback', () => {
+    test('should restore the replaced version even after its definition was pruned', async () => {
+      const handler = await loadDeployer();
+      const firstKey = putDefinition('orders', 1);
+      const secondKey = putDefinition('orders', 2);
+
+      await handler(cfnEvent('Create', { DefinitionKeys: { orders: firstKey } }));
+      await handler(cfnEvent('Update', { DefinitionKeys: { orders: secondKey } }, { DefinitionKeys: { orders: firstKey } }));
+      expect(workflows[0].tags.$LIVE).toBe('wf-1-v2');
+
+      // The definitions upload prunes keys that are no longer in the stack
+      delete objects[firstKey];
+      mockApi.registerWorkflowVersion.mockClear();
+
+      const result = await handler(
+        cfnEvent('Update', { DefinitionKeys: { orders: firstKey } }, { DefinitionKeys: { orders: secondKey } })
+      );
+
+      expect(workflows[0].tags.$LIVE).toBe('wf-1-v1');
+      expect(mockApi.registerWorkflowVersion).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ Data: { Message: 'Ran Update successfully: 1 tagged' } });
+    });
+  });
+
+  describe('removal', () => {
+    test('should archive workflows dropped from the definitions', async () => {
+      const handler = await loadDeployer();
+      const ordersKey = putDefinition('orders');
+      const invoicesKey = putDefinition('invoices');
+
+      await handler(cfnEvent('Create', { DefinitionKeys: { orders: ordersKey, invoices: invoicesKey } }));
+      await handler(cfnEvent(
+        'Update',
+        { DefinitionKeys: { orders: ordersKey }, RemovalPolicy: 'ARCHIVE' },
+        { DefinitionKeys: { orders: ordersKey, invoices: invoicesKey }, RemovalPolicy: 'ARCHIVE' }
+      ));
+
+      expect(mockApi.archiveWorkflow).toHaveBeenCalledTimes(1);
+      expect(mockApi.archiveWorkflow).toHaveBeenCalledWith({ organizationId: ORGANIZATION_ID, workflowId: 'wf-2' });
+    });
+
+    test('should keep workflows deployed by the replacement when a replaced resource is deleted', async () => {
+      const handler = await loadDeployer();
+      const key = putDefinition('orders');
+
+      // Switching to PER_WORKFLOW: the new resource deploys, then CloudFormation deletes the batch resource
+      await handler(cfnEvent('Create', { DefinitionKeys: { orders: key }, RemovalPolicy: 'UNTAG_LIVE' }));
+      await handler(cfnEvent(
+        'Create',
+        { WorkflowName: 'orders', DefinitionKey: key, RemovalPolicy: 'UNTAG_LIVE' },
+        undefined,
+        'JustWorkflowItWorkfloworders'
+      ));
+      await handler(cfnEvent('Delete', { DefinitionKeys: { orders: key }, RemovalPolicy: 'UNTAG_LIVE' }));
+
+      expect(mockApi.removeWorkflowVersionTag).not.toHaveBeenCalled();
+      expect(workflows[0].tags.$LIVE).toBe('wf-1-v2');
+
+      await handler(cfnEvent(
+        'Delete',
+        { WorkflowName: 'orders', DefinitionKey: key, RemovalPolicy: 'UNTAG_LIVE' },
+        undefined,
+        'JustWorkflowItWorkfloworders'
+      ));
+
+      expect(workflows[0].tags.$LIVE).toBeUndefined();
+    });
+  });
+});
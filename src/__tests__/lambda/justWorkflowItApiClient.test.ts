@@ -0,0 +1,323 @@
+const mockClient = {
+  listWorkflows: jest.fn(),
+  registerWorkflow: jest.fn(),
+};
+const mockSecretsManagerSend = jest.fn();
+const mockSsmSend = jest.fn();
+const mockPutMetrics = jest.fn();
+type SignableRequest = { headers: Record<string, string> };
+let mockClientConfig: { httpAuthSchemes: { signer: { sign: (request: SignableRequest) => Promise<SignableRequest> } }[] };
+
+jest.mock('@justworkflowit/api-client', () => ({
+  JustWorkflowIt: jest.fn((config) => {
+    mockClientConfig = config;
+    return mockClient;
+  }),
+}), { virtual: true });
+
+jest.mock('@aws-sdk/client-secrets-manager', () => ({
+  SecretsManagerClient: jest.fn(() => ({ send: mockSecretsManagerSend })),
+  GetSecretValueCommand: jest.fn((input) => input),
+}));
+
+jest.mock('@aws-sdk/client-ssm', () => ({
+  SSMClient: jest.fn(() => ({ send: mockSsmSend })),
+  GetParameterCommand: jest.fn((input) => input),
+}));
+
+jest.mock('../../lambda/embeddedMetrics', () => ({
+  putMetrics: (...args: unknown[]) => mockPutMetrics(...args),
+}));
+
+const originalEnv = process.env;
+
+// The client caches tokens per module, so every test gets a fresh copy
+const loadApiClient = () => import('../../lambda/justWorkflowItApiClient');
+
+// An error as the smithy client throws it for an HTTP response
+const httpError = (statusCode: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`HTTP ${statusCode}`), { $metadata: { httpStatusCode: statusCode }, $response: { headers } });
+
+const networkError = (code: string) => Object.assign(new Error(code), { code });
+
+// Runs backoff sleeps right away and records how long they would have been
+const recordSleeps = (): number[] => {
+  const delays: number[] = [];
+  jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void, ms?: number) => {
+    delays.push(ms ?? 0);
+    callback();
+    return 0;
+  }) as unknown as typeof setTimeout);
+  return delays;
+};
+
+// The Authorization header the client would send, signed as the smithy client signs requests
+const authorizationHeader = async () =>
+  (await mockClientConfig.httpAuthSchemes[0].signer.sign({ headers: {} })).headers.Authorization;
+
+const fetchReasons = () => mockPutMetrics.mock.calls.map(([, properties]) => properties.Reason);
+
+beforeEach(() => {
+  jest.resetModules();
+  process.env = {
+    ...originalEnv,
+    AUTH_TOKEN_SOURCE_TYPE: 'secretsmanager',
+    AUTH_TOKEN_SOURCE_ID: 'JustWorkflowItAuthToken',
+  };
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  process.env = originalEnv;
+  jest.restoreAllMocks();
+  jest.resetAllMocks();
+});
+
+describe('justWorkflowItApiClient', () => {
+  describe('auth token cache', () => {
+    test('should bypass a cached token on refresh', async () => {
+      const { getAuthTokenValue, refreshAuthTokenValue } = await loadApiClient();
+      mockSecretsManagerSend
+        .mockResolvedValueOnce({ SecretString: 'REPLACE_ME_WITH_JUST_WORKFLOW_IT_AUTH_TOKEN' })
+        .mockResolvedValueOnce({ SecretString: 'real-token' });
+
+      await expect(getAuthTokenValue()).resolves.toBe('REPLACE_ME_WITH_JUST_WORKFLOW_IT_AUTH_TOKEN');
+      await expect(refreshAuthTokenValue()).resolves.toBe('real-token');
+      await expect(getAuthTokenValue()).resolves.toBe('real-token');
+
+      expect(mockSecretsManagerSend).toHaveBeenCalledTimes(2);
+      expect(fetchReasons()).toEqual(['cold', 'refresh']);
+    });
+
+    test('should reuse the token until AUTH_TOKEN_CACHE_TTL_SECONDS have passed', async () => {
+      process.env.AUTH_TOKEN_CACHE_TTL_SECONDS = '60';
+      const { getAuthTokenValue } = await loadApiClient();
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      mockSecretsManagerSend.mockResolvedValueOnce({ SecretString: 'first-token' }).mockResolvedValueOnce({ SecretString: 'second-token' });
+
+      await expect(getAuthTokenValue()).resolves.toBe('first-token');
+      now.mockReturnValue(1_059_000);
+      await expect(getAuthTokenValue()).resolves.toBe('first-token');
+      now.mockReturnValue(1_061_000);
+      await expect(getAuthTokenValue()).resolves.toBe('second-token');
+
+      expect(fetchReasons()).toEqual(['cold', 'expired']);
+    });
+
+    test('should read the token on every call when AUTH_TOKEN_CACHE_TTL_SECONDS is 0', async () => {
+      process.env.AUTH_TOKEN_CACHE_TTL_SECONDS = '0';
+      const { getAuthTokenValue } = await loadApiClient();
+      jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      mockSecretsManagerSend.mockResolvedValueOnce({ SecretString: 'first-token' }).mockResolvedValueOnce({ SecretString: 'second-token' });
+
+      await expect(getAuthTokenValue()).resolves.toBe('first-token');
+      await expect(getAuthTokenValue()).resolves.toBe('second-token');
+
+      expect(mockSecretsManagerSend).toHaveBeenCalledTimes(2);
+    });
+
+    test('should fall back to 5 minutes for a negative AUTH_TOKEN_CACHE_TTL_SECONDS', async () => {
+      process.env.AUTH_TOKEN_CACHE_TTL_SECONDS = '-60';
+      const { getAuthTokenValue } = await loadApiClient();
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      mockSecretsManagerSend.mockResolvedValue({ SecretString: 'token' });
+
+      await getAuthTokenValue();
+      now.mockReturnValue(1_299_000);
+      await getAuthTokenValue();
+
+      expect(mockSecretsManagerSend).toHaveBeenCalledTimes(1);
+    });
+
+    test('should fetch the token again and retry once when a call is rejected with 401', async () => {
+      const { getApiClient } = await loadApiClient();
+      mockSecretsManagerSend.mockResolvedValueOnce({ SecretString: 'rotated-token' }).mockResolvedValueOnce({ SecretString: 'current-token' });
+      mockClient.listWorkflows.mockImplementation(async () => {
+        if (await authorizationHeader() !== 'Bearer current-token') throw httpError(401);
+        return { workflows: [] };
+      });
+
+      await expect(getApiClient({}).listWorkflows({ organizationId: 'org123' })).resolves.toEqual({ workflows: [] });
+
+      expect(mockClient.listWorkflows).toHaveBeenCalledTimes(2);
+      expect(fetchReasons()).toEqual(['cold', 'unauthorized']);
+    });
+
+    test('should throw when the refetched token is rejected with 401 too', async () => {
+      const { getApiClient } = await loadApiClient();
+      mockSecretsManagerSend.mockResolvedValue({ SecretString: 'revoked-token' });
+      mockClient.listWorkflows.mockRejectedValue(httpError(401));
+
+      await expect(getApiClient({}).listWorkflows({ organizationId: 'org123' })).rejects.toMatchObject({
+        name: 'UnauthorizedError',
+        statusCode: 401,
+      });
+      expect(mockClient.listWorkflows).toHaveBeenCalledTimes(2);
+    });
+
+    test('should only report a 401 as the reason of the fetch it caused', async () => {
+      const { getAuthTokenValue, invalidateAuthTokenValue } = await loadApiClient();
+      mockSecretsManagerSend.mockRejectedValueOnce(new Error('Rate exceeded')).mockResolvedValueOnce({ SecretString: 'token' });
+
+      invalidateAuthTokenValue();
+      await expect(getAuthTokenValue()).rejects.toThrow('Rate exceeded');
+      await expect(getAuthTokenValue()).resolves.toBe('token');
+
+      expect(fetchReasons()).toEqual(['unauthorized', 'cold']);
+    });
+  });
+
+  describe('client credentials', () => {
+    const clientCredentialsEnv = () => {
+      process.env.AUTH_MODE = 'CLIENT_CREDENTIALS';
+      process.env.OAUTH_TOKEN_ENDPOINT = 'https://auth.example.com/oauth2/token';
+      mockSecretsManagerSend.mockResolvedValue({ SecretString: JSON.stringify({ clientId: 'deployer', clientSecret: 's3cret' }) });
+    };
+
+    // Creating the client hands it the signer authorizationHeader calls
+    const createClient = async () => (await loadApiClient()).getApiClient({});
+
+    const tokenResponse = (accessToken: string, expiresIn = 3600) =>
+      new Response(JSON.stringify({ access_token: accessToken, token_type: 'Bearer', expires_in: expiresIn }), { status: 200 });
+
+    test('should exchange the client credentials for an access token', async () => {
+      clientCredentialsEnv();
+      process.env.OAUTH_SCOPES = 'workflows/read workflows/write';
+      await createClient();
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(tokenResponse('access-token'));
+
+      await expect(authorizationHeader()).resolves.toBe('Bearer access-token');
+
+      expect(fetchSpy).toHaveBeenCalledWith('https://auth.example.com/oauth2/token', expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ Authorization: `Basic ${Buffer.from('deployer:s3cret').toString('base64')}` }),
+      }));
+      const body = fetchSpy.mock.calls[0][1]?.body as URLSearchParams;
+      expect(Object.fromEntries(body)).toEqual({ grant_type: 'client_credentials', scope: 'workflows/read workflows/write' });
+    });
+
+    test('should reuse the access token until a minute before it expires', async () => {
+      clientCredentialsEnv();
+      await createClient();
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const fetchSpy = jest.spyOn(global, 'fetch')
+        .mockResolvedValueOnce(tokenResponse('first-access-token', 300))
+        .mockResolvedValueOnce(tokenResponse('second-access-token', 300));
+
+      await expect(authorizationHeader()).resolves.toBe('Bearer first-access-token');
+      now.mockReturnValue(1_239_000);
+      await expect(authorizationHeader()).resolves.toBe('Bearer first-access-token');
+      now.mockReturnValue(1_241_000);
+      await expect(authorizationHeader()).resolves.toBe('Bearer second-access-token');
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+    });
+
+    test('should report errors from the token endpoint', async () => {
+      clientCredentialsEnv();
+      await createClient();
+      jest.spyOn(global, 'fetch').mockResolvedValue(new Response('{"error":"invalid_client"}', { status: 401 }));
+
+      await expect(authorizationHeader()).rejects.toThrow('OAuth token endpoint returned 401: {"error":"invalid_client"}');
+    });
+
+    test('should reject an auth secret that does not hold client credentials', async () => {
+      clientCredentialsEnv();
+      mockSecretsManagerSend.mockResolvedValue({ SecretString: 'REPLACE_ME_WITH_JUST_WORKFLOW_IT_AUTH_TOKEN' });
+      await createClient();
+      const fetchSpy = jest.spyOn(global, 'fetch');
+
+      await expect(authorizationHeader()).rejects.toThrow('The auth secret must hold {"clientId": "...", "clientSecret": "..."}');
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retries', () => {
+    test('should retry 5xx responses with full jitter backoff', async () => {
+      const { getApiClient } = await loadApiClient();
+      const delays = recordSleeps();
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      mockClient.listWorkflows
+        .mockRejectedValueOnce(httpError(503))
+        .mockRejectedValueOnce(httpError(500))
+        .mockResolvedValueOnce({ workflows: [] });
+
+      await expect(getApiClient({}).listWorkflows({ organizationId: 'org123' })).resolves.toEqual({ workflows: [] });
+
+      expect(mockClient.listWorkflows).toHaveBeenCalledTimes(3);
+      expect(delays).toEqual([500, 1000]);
+    });
+
+    test('should back off from the throttling base delay when throttled', async () => {
+      const { getApiClient } = await loadApiClient();
+      const delays = recordSleeps();
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      mockClient.listWorkflows.mockRejectedValueOnce(httpError(429)).mockResolvedValueOnce({ workflows: [] });
+
+      await getApiClient({}).listWorkflows({ organizationId: 'org123' });
+
+      expect(delays).toEqual([1000]);
+    });
+
+    test('should wait as long as Retry-After asks, up to the maximum delay', async () => {
+      const { getApiClient } = await loadApiClient();
+      const delays = recordSleeps();
+      mockClient.listWorkflows
+        .mockRejectedValueOnce(httpError(429, { 'retry-after': '3' }))
+        .mockRejectedValueOnce(httpError(503, { 'Retry-After': '120' }))
+        .mockResolvedValueOnce({ workflows: [] });
+
+      await getApiClient({}).listWorkflows({ organizationId: 'org123' });
+
+      expect(delays).toEqual([3000, 20000]);
+    });
+
+    test('should throw the typed error without retrying client errors', async () => {
+      const { getApiClient } = await loadApiClient();
+      mockClient.listWorkflows.mockRejectedValue(
+        Object.assign(httpError(400), { errorType: 'ValidationError', fields: { organizationId: 'must not be empty' } })
+      );
+
+      await expect(getApiClient({}).listWorkflows({ organizationId: '' })).rejects.toMatchObject({
+        name: 'ValidationError',
+        statusCode: 400,
+        fields: { organizationId: 'must not be empty' },
+      });
+      expect(mockClient.listWorkflows).toHaveBeenCalledTimes(1);
+    });
+
+    test('should apply per-operation overrides', async () => {
+      const { getApiClient } = await loadApiClient();
+      recordSleeps();
+      mockClient.listWorkflows.mockRejectedValue(httpError(503));
+
+      const api = getApiClient({ maxAttempts: 5, operations: { listWorkflows: { maxAttempts: 2 } } });
+
+      await expect(api.listWorkflows({ organizationId: 'org123' })).rejects.toMatchObject({ name: 'ServerFaultError' });
+      expect(mockClient.listWorkflows).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not retry registerWorkflow after a failure the API may have applied', async () => {
+      const { getApiClient } = await loadApiClient();
+      recordSleeps();
+      mockClient.registerWorkflow.mockRejectedValueOnce(httpError(503)).mockRejectedValueOnce(networkError('ECONNRESET'));
+      const api = getApiClient({});
+
+      await expect(api.registerWorkflow({ organizationId: 'org123', name: 'orders' })).rejects.toMatchObject({ name: 'ServerFaultError' });
+      await expect(api.registerWorkflow({ organizationId: 'org123', name: 'orders' })).rejects.toMatchObject({ code: 'ECONNRESET' });
+      expect(mockClient.registerWorkflow).toHaveBeenCalledTimes(2);
+    });
+
+    test('should retry registerWorkflow when throttled or the connection never opened', async () => {
+      const { getApiClient } = await loadApiClient();
+      recordSleeps();
+      mockClient.registerWorkflow
+        .mockRejectedValueOnce(httpError(429))
+        .mockRejectedValueOnce(networkError('ECONNREFUSED'))
+        .mockResolvedValueOnce({ workflowId: 'wf-1' });
+
+      await expect(getApiClient({}).registerWorkflow({ organizationId: 'org123', name: 'orders' })).resolves.toEqual({ workflowId: 'wf-1' });
+      expect(mockClient.registerWorkflow).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  ConflictError,
+  JustWorkflowItApiError,
+  NotFoundError,
+  ServerFaultError,
+  ThrottlingError,
+  UnauthorizedError,
+  ValidationError,
+  deserializeSmithyError,
+} from '../../lambda/justWorkflowItApiExceptions';
+
+type SmithyErrorOptions = { message: string; $metadata: { httpStatusCode?: number } };
+
+// Error classes shaped as smithy generates them: a service exception base class, with the fault and
+// retry traits of the modeled error set by each subclass
+jest.mock('@justworkflowit/api-client', () => {
+  class JustWorkflowItServiceException extends Error {
+    public readonly $fault: 'client' | 'server';
+    public readonly $metadata: SmithyErrorOptions['$metadata'];
+
+    constructor(options: SmithyErrorOptions & { name: string; $fault: 'client' | 'server' }) {
+      super(options.message);
+      this.name = options.name;
+      this.$fault = options.$fault;
+      this.$metadata = options.$metadata;
+    }
+  }
+  const modeledError = (name: string, $fault: 'client' | 'server', $retryable?: { throttling: boolean }) =>
+    class extends JustWorkflowItServiceException {
+      public readonly $retryable = $retryable;
+
+      constructor(options: SmithyErrorOptions) {
+        super({ name, $fault, ...options });
+      }
+    };
+
+  return {
+    JustWorkflowIt: jest.fn(),
+    JustWorkflowItServiceException,
+    NotFoundError: modeledError('NotFoundError', 'client'),
+    ConflictError: modeledError('ConflictError', 'client'),
+    WorkflowQuotaExceededError: modeledError('WorkflowQuotaExceededError', 'client'),
+    SlowDownError: modeledError('SlowDownError', 'client', { throttling: true }),
+    InternalServerError: modeledError('InternalServerError', 'server'),
+  };
+}, { virtual: true });
+
+type SmithyErrorClass = new (options: SmithyErrorOptions) => Error;
+
+const apiClientError = (exportName: string, statusCode: number) => {
+  const ErrorClass: SmithyErrorClass = jest.requireMock('@justworkflowit/api-client')[exportName];
+  return new ErrorClass({ message: 'Something went wrong', $metadata: { httpStatusCode: statusCode } });
+};
+
+// An error as the smithy client throws it for an HTTP response
+const smithyError = (properties: Record<string, unknown>, statusCode?: number) =>
+  Object.assign(new Error('Something went wrong'), properties, statusCode ? { $metadata: { httpStatusCode: statusCode } } : {});
+
+describe('deserializeSmithyError', () => {
+  test('should map an error class exported by the api-client to the typed class of the same name', () => {
+    const err = apiClientError('NotFoundError', 404);
+
+    const deserialized = deserializeSmithyError(err);
+
+    expect(deserialized).toBeInstanceOf(NotFoundError);
+    expect(deserialized).toMatchObject({
+      name: 'NotFoundError',
+      message: 'Something went wrong',
+      errorType: 'NotFoundError',
+      statusCode: 404,
+      cause: err,
+    });
+  });
+
+  test('should prefer the exported error class over the HTTP status', () => {
+    expect(deserializeSmithyError(apiClientError('ConflictError', 400))).toBeInstanceOf(ConflictError);
+  });
+
+  test('should map exported error classes without a typed class by their smithy traits', () => {
+    expect(deserializeSmithyError(apiClientError('SlowDownError', 400))).toBeInstanceOf(ThrottlingError);
+    expect(deserializeSmithyError(apiClientError('InternalServerError', 400))).toBeInstanceOf(ServerFaultError);
+    expect(deserializeSmithyError(apiClientError('WorkflowQuotaExceededError', 403))).toBeInstanceOf(UnauthorizedError);
+  });
+
+  test('should fall back to the HTTP status for error types it does not know', () => {
+    expect(deserializeSmithyError(smithyError({ name: 'TeapotError' }, 422))).toBeInstanceOf(ValidationError);
+    expect(deserializeSmithyError(smithyError({ name: 'TeapotError' }, 429))).toBeInstanceOf(ThrottlingError);
+    expect(deserializeSmithyError(smithyError({ name: 'TeapotError' }, 503))).toBeInstanceOf(ServerFaultError);
+
+    const unmapped = deserializeSmithyError(smithyError({ name: 'TeapotError' }, 418));
+    expect(unmapped.constructor).toBe(JustWorkflowItApiError);
+    expect(unmapped).toMatchObject({ statusCode: 418, errorType: 'TeapotError' });
+  });
+
+  test('should fall back to the smithy throttling and fault flags without a status', () => {
+    expect(deserializeSmithyError(smithyError({ $retryable: { throttling: true } }))).toBeInstanceOf(ThrottlingError);
+    expect(deserializeSmithyError(smithyError({ $fault: 'server' }))).toBeInstanceOf(ServerFaultError);
+  });
+
+  test('should keep the invalid fields of a validation error', () => {
+    const deserialized = deserializeSmithyError(
+      smithyError({ errorType: 'ValidationError', fields: { organizationId: 'must not be empty' } }, 400)
+    );
+
+    expect(deserialized).toBeInstanceOf(ValidationError);
+    expect((deserialized as ValidationError).fields).toEqual({ organizationId: 'must not be empty' });
+  });
+
+  test('should ignore fields that are not a map of messages', () => {
+    const deserialized = deserializeSmithyError(smithyError({ errorType: 'ValidationError', fields: { organizationId: 42 } }, 400));
+
+    expect((deserialized as ValidationError).fields).toEqual({});
+  });
+
+  test('should return errors that never got a response unchanged', () => {
+    const err = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+
+    expect(deserializeSmithyError(err)).toBe(err);
+  });
+
+  test('should return errors that were already deserialized unchanged', () => {
+    const err = new NotFoundError('No workflow wf-1', { statusCode: 404 });
+
+    expect(deserializeSmithyError(err)).toBe(err);
+  });
+
+  test('should wrap values that are not errors', () => {
+    const deserialized = deserializeSmithyError('boom');
+
+    expect(deserialized).toBeInstanceOf(JustWorkflowItApiError);
+    expect(deserialized).toMatchObject({ message: 'Unknown error', cause: 'boom' });
+  });
+
+  test('should only mark throttling and server faults as retryable', () => {
+    expect(new ThrottlingError('Slow down').isRetryable).toBe(true);
+    expect(new ServerFaultError('Unavailable').isRetryable).toBe(true);
+    expect(new NotFoundError('Missing').isRetryable).toBe(false);
+    expect(new ValidationError('Invalid').isRetryable).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+import { Token } from 'aws-cdk-lib';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+
+/**
+ * An integration type whose steps call an AWS resource in this account. JustWorkflowIt doesn't
+ * define any such types itself, so they're supplied through the `awsIntegrations` prop, keyed by
+ * the steps' `integrationDetails.type`.
+ */
+export interface AwsIntegration {
+  readonly actions: string[]; // IAM actions a step of this type calls on its target
+  readonly resourceArnField?: string; // Field of integrationDetails.config holding the target's ARN (default: resourceArn)
+}
+
+/**
+ * What to do at synth time when a workflow step calls an AWS resource executionRole can't reach,
+ * or executionRole grants a target no workflow step calls.
+ */
+export enum IntegrationPermissionCheck {
+  OFF = 'OFF',
+  WARN = 'WARN', // Add a warning annotation, shown by `cdk synth`
+  FAIL = 'FAIL', // Fail synth
+}
+
+export interface IntegrationTarget {
+  workflowName: string;
+  stepName: string;
+  integrationType: string;
+  actions: string[];
+  resourceArnField: string;
+  resourceArn?: string; // Undefined when the step's config is missing resourceArnField
+}
+
+type IntegrationStep = {
+  name?: unknown;
+  integrationDetails?: {
+    type?: unknown;
+    config?: Record<string, unknown> | null;
+  };
+};
+
+/**
+ * Every step in a serialized workflow definition whose integration type is one of awsIntegrations.
+ */
+export const integrationTargetsOf = (
+  definition: string,
+  awsIntegrations: Readonly<Record<string, AwsIntegration>>
+): IntegrationTarget[] => {
+  const parsedWorkflow: { workflowName: string; steps?: unknown } = JSON.parse(definition);
+  const steps: (IntegrationStep | null)[] = Array.isArray(parsedWorkflow.steps) ? parsedWorkflow.steps : [];
+
+  return steps.flatMap((step) => {
+    const integrationType = step?.integrationDetails?.type;
+    if (typeof integrationType !== 'string' || !Object.prototype.hasOwnProperty.call(awsIntegrations, integrationType)) {
+      return [];
+    }
+    const { actions, resourceArnField = 'resourceArn' } = awsIntegrations[integrationType];
+    const resourceArn = step?.integrationDetails?.config?.[resourceArnField];
+    return [{
+      workflowName: parsedWorkflow.workflowName,
+      stepName: String(step?.name),
+      integrationType,
+      actions,
+      resourceArnField,
+      resourceArn: typeof resourceArn === 'string' ? resourceArn : undefined,
+    }];
+  });
+};
+
+// Targets whose step names the resource it calls
+export const hasResourceArn = (
+  target: IntegrationTarget
+): target is IntegrationTarget & { resourceArn: string } => target.resourceArn !== undefined;
+
+/**
+ * The least-privilege statement for a single integration target.
+ */
+export const integrationTargetStatement = (target: IntegrationTarget & { resourceArn: string }): PolicyStatement =>
+  new PolicyStatement({
+    actions: target.actions,
+    resources: [target.resourceArn],
+  });
+
+const matchesIamPattern = (pattern: string, value: string): boolean =>
+  new RegExp(
+    `^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`
+  ).test(value);
+
+const statementAllows = (statement: PolicyStatement, action: string, resourceArn: string): boolean =>
+  statement.actions.some((granted) => matchesIamPattern(granted, action))
+  && statement.resources.some((granted) => !Token.isUnresolved(granted) && matchesIamPattern(granted, resourceArn));
+
+const describeTarget = (target: IntegrationTarget) =>
+  `Workflow "${target.workflowName}", step "${target.stepName}"`;
+
+/**
+ * Compares integration targets with the statements granted to executionRole by hand. Targets and
+ * grants whose ARN is only known at deploy time can't be compared and are skipped.
+ */
+export const findIntegrationPermissionProblems = (
+  targets: IntegrationTarget[],
+  grantedStatements: PolicyStatement[],
+  awsIntegrations: Readonly<Record<string, AwsIntegration>>,
+  derived: boolean
+): string[] => {
+  const problems: string[] = [];
+
+  targets.forEach((target) => {
+    if (!hasResourceArn(target)) {
+      problems.push(
+        `${describeTarget(target)}: integration "${target.integrationType}" is missing config.${target.resourceArnField}`
+      );
+      return;
+    }
+    const { resourceArn } = target;
+    if (derived || Token.isUnresolved(resourceArn)) {
+      return;
+    }
+    const missingActions = target.actions.filter(
+      (action) => !grantedStatements.some((statement) => statementAllows(statement, action, resourceArn))
+    );
+    if (missingActions.length > 0) {
+      problems.push(
+        `${describeTarget(target)}: executionRole cannot call ${missingActions.join(', ')} on ${resourceArn}`
+      );
+    }
+  });
+
+  // Only statements for integration actions count, so KMS statements added by grants aren't flagged
+  const integrationActions = new Set(Object.values(awsIntegrations).flatMap(({ actions }) => actions));
+  grantedStatements.forEach((statement) => {
+    const actions = statement.actions.filter((action) => integrationActions.has(action));
+    if (actions.length === 0) {
+      return;
+    }
+    statement.resources
+      .filter((resource) => !Token.isUnresolved(resource))
+      .forEach((resource) => {
+        // Lambda grants also cover `<arn>:*` for versions and aliases
+        const used = targets.some(
+          (target) => target.resourceArn
+            && !Token.isUnresolved(target.resourceArn)
+            && [target.resourceArn, `${target.resourceArn}:*`].some((arn) => matchesIamPattern(resource, arn))
+            && target.actions.some((action) => actions.includes(action))
+        );
+        if (!used) {
+          problems.push(`executionRole grants ${actions.join(', ')} on ${resource}, but no workflow step uses it`);
+        }
+      });
+  });
+
+  return problems;
+};
@@ -0,0 +1,41 @@
+import { Token } from 'aws-cdk-lib';
+
+export interface ClientCredentialsProps {
+  readonly tokenEndpoint: string; // OAuth 2.0 token endpoint the deployer exchanges the client credentials at
+  readonly scopes?: string[]; // Scopes to request (default: the client's default scopes)
+}
+
+/**
+ * How the deployer Lambda authenticates to the JustWorkflowIt API. The auth secret (or parameter)
+ * holds what the mode needs.
+ */
+export class JustWorkflowItAuth {
+  /**
+   * A long-lived bearer token pasted into the auth secret.
+   */
+  public static staticToken(): JustWorkflowItAuth {
+    return new JustWorkflowItAuth('STATIC_TOKEN');
+  }
+
+  /**
+   * OAuth 2.0 client credentials. The auth secret holds `{"clientId": "...", "clientSecret": "..."}`
+   * and the deployer fetches short-lived access tokens from `tokenEndpoint`, caching each until it
+   * expires.
+   */
+  public static clientCredentials(props: ClientCredentialsProps): JustWorkflowItAuth {
+    if (!Token.isUnresolved(props.tokenEndpoint) && !props.tokenEndpoint.startsWith('https://')) {
+      throw new Error(`OAuth token endpoint "${props.tokenEndpoint}" must use https`);
+    }
+    return new JustWorkflowItAuth('CLIENT_CREDENTIALS', props);
+  }
+
+  public readonly mode: 'STATIC_TOKEN' | 'CLIENT_CREDENTIALS';
+  public readonly tokenEndpoint?: string;
+  public readonly scopes?: string[];
+
+  private constructor(mode: JustWorkflowItAuth['mode'], props?: ClientCredentialsProps) {
+    this.mode = mode;
+    this.tokenEndpoint = props?.tokenEndpoint;
+    this.scopes = props?.scopes;
+  }
+}
@@ -1,139 +1,396 @@
 import {
+  Annotations,
+  Arn,
+  ArnFormat,
   CustomResource,
   Duration,
   RemovalPolicy,
   SecretValue,
+  Stack,
+  Tags,
 } from 'aws-cdk-lib';
-import { Construct } from 'constructs';
-import { Runtime, Function, Code } from 'aws-cdk-lib/aws-lambda';
+import { Construct, IConstruct, IDependable } from 'constructs';
 import {
+  Architecture,
+  CfnFunction,
+  Code,
+  Function,
+  IFunction,
+  Runtime,
+  Tracing,
+} from 'aws-cdk-lib/aws-lambda';
+import { ISecurityGroup, IVpc, SubnetSelection } from 'aws-cdk-lib/aws-ec2';
+import { LogGroup, RetentionDays } from 'aws-cdk-lib/aws-logs';
+import {
+  Grant,
+  IManagedPolicy,
+  IPrincipal,
+  IRole,
   Role,
   PolicyStatement,
   AccountPrincipal,
+  SessionTagsPrincipal,
 } from 'aws-cdk-lib/aws-iam';
-import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+import { ISecret, Secret } from 'aws-cdk-lib/aws-secretsmanager';
+import { IStringParameter } from 'aws-cdk-lib/aws-ssm';
+import { IKey } from 'aws-cdk-lib/aws-kms';
+import { ITopic } from 'aws-cdk-lib/aws-sns';
+import { IQueue } from 'aws-cdk-lib/aws-sqs';
+import { IStateMachine } from 'aws-cdk-lib/aws-stepfunctions';
+import { IEventBus, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction } from 'aws-cdk-lib/aws-events-targets';
+import { ComparisonOperator, IAlarm, Metric, Stats, TreatMissingData } from 'aws-cdk-lib/aws-cloudwatch';
+import { IStream } from 'aws-cdk-lib/aws-kinesis';
+import { IDeliveryStream } from 'aws-cdk-lib/aws-kinesisfirehose';
+import { ITable } from 'aws-cdk-lib/aws-dynamodb';
+import { IRestApi } from 'aws-cdk-lib/aws-apigateway';
+import { IHttpApi } from 'aws-cdk-lib/aws-apigatewayv2';
 import { Provider } from 'aws-cdk-lib/custom-resources';
-import { BlockPublicAccess, Bucket, BucketEncryption } from 'aws-cdk-lib/aws-s3';
+import { BlockPublicAccess, Bucket, BucketEncryption, IBucket } from 'aws-cdk-lib/aws-s3';
 import { ISource, Source, BucketDeployment } from 'aws-cdk-lib/aws-s3-deployment';
 import * as path from 'path';
-import { v4 as uuidv4 } from 'uuid';
-import { JustWorkflowItEngine } from '@justworkflowit/engine';
+import { createHash } from 'crypto';
+import { WorkflowDefinitionSource } from './workflowDefinitionSource';
+import {
+  InlineWorkflowDefinition,
+  ValidatedWorkflowDefinition,
+  validateWorkflowDefinition,
+} from './workflowDefinitionValidation';
+import { JustWorkflowItWorkflow } from './justWorkflowItWorkflow';
+import { JustWorkflowItEnvironment } from './justWorkflowItEnvironment';
+import { JustWorkflowItAuth } from './justWorkflowItAuth';
 import {
-  JSONSchemaFaker,
-  JSONSchemaFakerRefs,
-  Schema,
-} from 'json-schema-faker';
+  AwsIntegration,
+  IntegrationPermissionCheck,
+  IntegrationTarget,
+  findIntegrationPermissionProblems,
+  hasResourceArn,
+  integrationTargetStatement,
+  integrationTargetsOf,
+} from './integrationPermissions';
+
+/**
+ * A workflow definition as a JSON string, a typed definition object, a builder,
+ * or a file/directory source.
+ */
+export type WorkflowDefinitionInput = InlineWorkflowDefinition | WorkflowDefinitionSource;
+
+export enum DefinitionDeploymentMode {
+  BATCH = 'BATCH', // One custom resource deploys every definition
+  PER_WORKFLOW = 'PER_WORKFLOW', // One JustWorkflowItWorkflow, with its own custom resource, per definition
+}
+
+/**
+ * What happens to a workflow on the JustWorkflowIt platform when it is removed from the stack,
+ * either by deleting the stack or by dropping its definition. Changing a construct ID or the
+ * deployment mode replaces the custom resource; the old one's deletion leaves alone workflows its
+ * replacement has deployed.
+ */
+export enum WorkflowRemovalPolicy {
+  RETAIN = 'RETAIN', // Leave the workflow and its $LIVE tag in place
+  UNTAG_LIVE = 'UNTAG_LIVE', // Remove the $LIVE tag so the workflow can no longer be started by tag
+  ARCHIVE = 'ARCHIVE', // Archive the workflow
+}
+
+/**
+ * What the deployer does when a workflow definition fails to deploy.
+ */
+export enum DeploymentFailureMode {
+  FAIL_FAST = 'FAIL_FAST', // Stop at the first failing definition and fail the deployment
+  CONTINUE = 'CONTINUE', // Attempt every definition, then fail only if a critical workflow failed
+}
+
+/**
+ * What the deployer does while the auth secret still holds the placeholder token.
+ */
+export enum PlaceholderTokenBehavior {
+  SKIP = 'SKIP', // Skip deployment and report success
+  WARN_WITH_ALARM = 'WARN_WITH_ALARM', // Skip deployment, publish a metric and raise placeholderTokenAlarm
+  FAIL = 'FAIL', // Fail the deployment, e.g. in CI/CD; stack deletion still succeeds
+}
+
+/**
+ * How the deployer matches definition names against the workflows already registered in the
+ * organization. Either way, a name matching several workflows fails the deployment.
+ */
+export enum WorkflowNameMatching {
+  EXACT = 'EXACT', // 'Orders' only matches 'Orders'
+  CASE_INSENSITIVE = 'CASE_INSENSITIVE', // 'Orders' also matches 'ORDERS' and 'orders'
+}
+
+export interface ApiGatewayRoute {
+  api: IRestApi | IHttpApi;
+  method?: string; // HTTP method, e.g. 'POST' (default: any method)
+  path?: string; // Resource path, e.g. '/orders' (default: any path)
+  stage?: string; // Stage name (default: any stage)
+}
+
+/**
+ * Runtime settings for the deployer Lambda, also applied to the Provider framework Lambda that
+ * CDK creates to call it.
+ */
+export interface DefinitionDeployerLambdaOptions {
+  vpc?: IVpc; // VPC to run in; it needs egress to the JustWorkflowIt API, S3 and the auth token source
+  vpcSubnets?: SubnetSelection; // Subnets within vpc (default: private subnets)
+  securityGroups?: ISecurityGroup[]; // Security groups within vpc (default: a new one allowing all egress)
+  architecture?: Architecture; // (default: X86_64)
+  memorySize?: number; // In MB (default: 128)
+  timeout?: Duration; // Timeout of the deployer Lambda (default: 5 minutes)
+  logRetention?: RetentionDays; // Creates a log group with this retention (default: logs never expire)
+  logEncryptionKey?: IKey; // Creates a log group encrypted with this key; its policy must allow CloudWatch Logs
+  tracing?: Tracing; // X-Ray tracing mode (default: disabled)
+  tags?: Record<string, string>; // Tags for the Lambdas, their roles and log group
+}
+
+export interface ApiRetryOptions {
+  maxAttempts?: number; // Attempts per API call, including the first (default: 3)
+  baseDelay?: Duration; // Backoff cap before the first retry, doubled each attempt with full jitter (default: 1 second)
+  throttlingBaseDelay?: Duration; // Same, for throttled (HTTP 429) calls (default: 2 seconds)
+  maxDelay?: Duration; // Cap on any single backoff, including a Retry-After sent by the API (default: 20 seconds)
+}
+
+export interface ApiRetryPolicy extends ApiRetryOptions {
+  operations?: Record<string, ApiRetryOptions>; // Overrides by API operation, e.g. { registerWorkflowVersion: { maxAttempts: 5 } }
+}
 
 export interface JustWorkflowItConstructsProps {
   disambiguator: string;
   organizationId: string;
-  workflowDefinitions: string[]; // Array of long strings (JSON definitions)
+  workflowDefinitions: WorkflowDefinitionInput[]; // JSON strings, typed definition objects, builders or file sources
   ignoreDefinitionDeployerFailures?: boolean; // If true, allows silent failures in definition deployer Lambda (default: false)
+  deploymentFailureMode?: DeploymentFailureMode; // Stop at the first failing definition or attempt them all (default: FAIL_FAST)
+  criticalWorkflows?: string[]; // With CONTINUE, only failures of these workflows fail the deployment (default: every workflow)
   lambdaArns?: string[];   // ARNs of Lambdas JustWorkflowIt can invoke
   snsTopicArns?: string[]; // ARNs of SNS topics JustWorkflowIt can publish to
   sqsQueueArns?: string[]; // ARNs of SQS queues JustWorkflowIt can send to
+  lambdaFunctions?: IFunction[]; // Lambdas JustWorkflowIt can invoke, granted like grantInvoke
+  snsTopics?: ITopic[]; // SNS topics JustWorkflowIt can publish to, granted like grantPublish
+  sqsQueues?: IQueue[]; // SQS queues JustWorkflowIt can send to, granted like grantSendMessages
+  stateMachines?: IStateMachine[]; // Step Functions state machines JustWorkflowIt can start, granted like grantStartExecution
+  eventBuses?: IEventBus[]; // EventBridge buses JustWorkflowIt can put events on, granted like grantPutEvents
+  kinesisStreams?: IStream[]; // Kinesis data streams JustWorkflowIt can write to, granted like grantStreamWrite
+  firehoseDeliveryStreams?: IDeliveryStream[]; // Firehose streams JustWorkflowIt can write to, granted like grantPutRecords
+  dynamoDbTables?: ITable[]; // DynamoDB tables JustWorkflowIt can read and write items in, granted like grantReadWriteData
+  s3Buckets?: IBucket[]; // S3 buckets JustWorkflowIt can read and write objects in, granted like grantReadWriteObjects
+  apiGatewayRoutes?: ApiGatewayRoute[]; // IAM-authorized API Gateway routes JustWorkflowIt can invoke, granted like grantInvokeApi
+  awsIntegrations?: Record<string, AwsIntegration>; // Integration types whose steps call AWS resources in this account, by integrationDetails.type
+  deriveIntegrationPermissions?: boolean; // Grant executionRole exactly what the awsIntegrations steps in the definitions call (default: false)
+  integrationPermissionCheck?: IntegrationPermissionCheck; // Check definitions against executionRole's grants at synth time (default: OFF)
+  environment?: JustWorkflowItEnvironment; // JustWorkflowIt API, account and external ID to use (default: JustWorkflowItEnvironment.PRODUCTION)
+  trustedAccountId?: string; // JustWorkflowIt account allowed to assume executionRole (default: the environment's account)
+  deployerLambdaOptions?: DefinitionDeployerLambdaOptions; // VPC, architecture, memory, logging, tracing and tags of the deployer Lambdas
+  permissionsBoundary?: IManagedPolicy; // Permissions boundary for the created executionRole
+  maxSessionDuration?: Duration; // Maximum session duration of the created executionRole (default: 1 hour)
+  trustedWorkflowIds?: string[]; // Only allow sessions tagged with one of these workflow IDs (session tag 'WorkflowId')
+  trustedSourceIps?: string[]; // Only allow sessions from these IP ranges (aws:SourceIp)
+  trustedSourceVpces?: string[]; // Only allow sessions through these VPC endpoints (aws:SourceVpce)
+  authSecretName?: string; // Name of the auth token secret to create (default: '/justworkflowit/api/authToken')
+  executionRoleName?: string; // Name of the execution role to create (default: 'JustWorkflowItExecutionRole')
+  authSecret?: ISecret; // Existing auth token secret, e.g. another instance's authSecret, instead of creating one
+  executionRole?: IRole; // Existing execution role, e.g. another instance's executionRole, instead of creating one
+  authTokenParameter?: IStringParameter; // SSM SecureString parameter holding the auth token, instead of a secret
+  authTokenEncryptionKey?: IKey; // Customer-managed KMS key for the created secret, or the key protecting an existing secret/parameter
+  authTokenCacheTtl?: Duration; // How long the deployer reuses a fetched auth token, zero to never reuse it (default: 5 minutes)
+  auth?: JustWorkflowItAuth; // How the deployer authenticates to the API (default: JustWorkflowItAuth.staticToken())
+  deploymentRevision?: string; // Change to re-run the deployer when no definition changed, e.g. after replacing the placeholder token
+  placeholderTokenBehavior?: PlaceholderTokenBehavior; // What the deployer does while the placeholder token is in place (default: SKIP)
+  redeployOnAuthSecretUpdate?: boolean; // Redeploy the definitions when the auth secret is updated; BATCH mode and a secret only (default: false)
+  deploymentMode?: DefinitionDeploymentMode; // How workflowDefinitions are deployed (default: BATCH)
+  deploymentConcurrency?: number; // Workflows the deployer registers in parallel in BATCH mode (default: 4)
+  workflowNameMatching?: WorkflowNameMatching; // How definition names match registered workflows (default: EXACT)
+  apiRetryPolicy?: ApiRetryPolicy; // Retries of the JustWorkflowIt API calls made by the deployer on 5xx, 429 and network errors
+  workflowRemovalPolicy?: WorkflowRemovalPolicy; // Applied to workflows removed from the stack (default: RETAIN)
+  versionTag?: string; // Tag moved to each deployed version, e.g. '$STAGING' (default: '$LIVE')
+  promoteFromTag?: string; // Promote the version already carrying this tag instead of registering definitions, e.g. '$BETA'
 }
 
+const DEFAULT_AUTH_SECRET_NAME = '/justworkflowit/api/authToken';
+const DEFAULT_EXECUTION_ROLE_NAME = 'JustWorkflowItExecutionRole';
+
+// Session tag JustWorkflowIt sets to the ID of the workflow a session acts for
+const WORKFLOW_ID_SESSION_TAG = 'WorkflowId';
+
+// Serialized for the deployer Lambda, which reads it as API_RETRY_POLICY
+const retryOptionsJson = (options: ApiRetryOptions, path: string) => {
+  if (options.maxAttempts !== undefined && !(Number.isInteger(options.maxAttempts) && options.maxAttempts >= 1)) {
+    throw new Error(`${path}.maxAttempts must be a positive integer, got ${options.maxAttempts}`);
+  }
+  return {
+    maxAttempts: options.maxAttempts,
+    baseDelayMs: options.baseDelay?.toMilliseconds(),
+    throttlingBaseDelayMs: options.throttlingBaseDelay?.toMilliseconds(),
+    maxDelayMs: options.maxDelay?.toMilliseconds(),
+  };
+};
+
+const apiRetryPolicyJson = ({ operations, ...defaults }: ApiRetryPolicy): string =>
+  JSON.stringify({
+    ...retryOptionsJson(defaults, 'apiRetryPolicy'),
+    operations: operations && Object.fromEntries(
+      Object.entries(operations).map(([operation, options]) => [
+        operation,
+        retryOptionsJson(options, `apiRetryPolicy.operations.${operation}`),
+      ])
+    ),
+  });
+
+// Namespace of the metrics the deployer Lambda publishes in Embedded Metric Format
+const DEPLOYER_METRICS_NAMESPACE = 'JustWorkflowIt/DefinitionDeployer';
+
+const definitionKeyFor = (definition: string): string =>
+  `definitions/${createHash('sha256').update(definition).digest('hex')}.json`;
+
+// Path of the instance that created each named secret and role in an app, by account, region and name
+const createdResourceNames = new WeakMap<IConstruct, Map<string, string>>();
+
+/**
+ * Records that scope creates a resource with a fixed name, e.g. the default secret name, and throws
+ * when another instance in the app already creates one with that name in the same account (and
+ * region, for secrets), which CloudFormation would only reject at deploy time.
+ */
+const claimResourceName = (scope: Construct, resource: string, name: string, nameProp: string, regional: boolean): void => {
+  const createdNames = createdResourceNames.get(scope.node.root) ?? new Map<string, string>();
+  createdResourceNames.set(scope.node.root, createdNames);
+
+  const { account, region } = Stack.of(scope);
+  const key = `${resource}:${account}:${regional ? region : '*'}:${name}`;
+  const creator = createdNames.get(key);
+  if (creator) {
+    throw new Error(
+      `${scope.node.path} creates the ${resource} "${name}", which ${creator} already creates in the same `
+      + `${regional ? 'account and region' : 'account'}; set ${nameProp} to a different name or share the other `
+      + `instance's ${resource}`
+    );
+  }
+  createdNames.set(key, scope.node.path);
+};
+
 export class JustWorkflowItConstructs extends Construct {
   private static readonly CONSTRUCT_ID_PREFIX = 'JustWorkflowItConstructs';
-  public readonly executionRole: Role;
+  public readonly executionRole: IRole;
+  public readonly authSecret?: ISecret; // Undefined when the token comes from authTokenParameter
+  public readonly placeholderTokenAlarm?: IAlarm; // Set with PlaceholderTokenBehavior.WARN_WITH_ALARM
+  public readonly workflows: JustWorkflowItWorkflow[] = []; // Per-workflow constructs, including ones added with new JustWorkflowItWorkflow
+
+  // Every deployed workflow name, mapped to its construct in PER_WORKFLOW mode
+  private readonly workflowNames = new Map<string, JustWorkflowItWorkflow | undefined>();
+  private readonly deployerTrigger?: CustomResource;
+  private readonly definitionUploads: BucketDeployment;
+  private readonly deployerServiceToken: string;
+  private readonly deploymentRevision?: string;
+  private readonly workflowRemovalPolicy?: WorkflowRemovalPolicy;
+  private readonly versionTag?: string;
+  private readonly promoteFromTag?: string;
+  private readonly awsIntegrations: Readonly<Record<string, AwsIntegration>>;
+  private readonly deriveIntegrationPermissions: boolean;
+  // AWS resources called by workflow steps, and statements granted to executionRole by this construct
+  private readonly integrationTargets: IntegrationTarget[] = [];
+  private readonly grantedStatements: PolicyStatement[] = [];
 
   constructor(scope: Construct, props: JustWorkflowItConstructsProps) {
     super(scope, `${JustWorkflowItConstructs.CONSTRUCT_ID_PREFIX}${props.disambiguator}`);
 
     // Validate all workflow definitions at CDK synth time
-    props.workflowDefinitions.forEach((definition, index) => {
-      try {
-        // Parse the workflow to extract integration types
-        const parsedWorkflow = JSON.parse(definition);
-        const integrationTypes = new Set<string>();
-
-        if (parsedWorkflow.steps && Array.isArray(parsedWorkflow.steps)) {
-          parsedWorkflow.steps.forEach((step: any) => {
-            if (step?.integrationDetails?.type) {
-              integrationTypes.add(step.integrationDetails.type);
-            }
-
-            // For marketplace and runChildJob steps, inject permissive placeholder schemas so synth-time
-            // validation passes. The real schemas are injected at API registration time.
-            const needsPlaceholderSchemas = step?.integrationDetails?.type === '/justworkflowit/runMarketplaceJob'
-              || step?.integrationDetails?.type === '/justworkflowit/runChildJob';
-            if (needsPlaceholderSchemas && step.name) {
-              const stepName = step.name as string;
-              if (!parsedWorkflow.definitions) {
-                parsedWorkflow.definitions = {};
-              }
-              // Only override with permissive placeholders when no definition is provided.
-              // When the workflow supplies its own input/output definitions (e.g. to describe
-              // the marketplace executor's output shape), preserve them so mock data matches.
-              if (!step.integrationDetails.inputDefinition) {
-                parsedWorkflow.definitions[`${stepName}Input`] = { type: 'object', additionalProperties: true };
-                step.integrationDetails.inputDefinition = { $ref: `#/definitions/${stepName}Input` };
-              }
-              if (!step.integrationDetails.outputDefinition) {
-                parsedWorkflow.definitions[`${stepName}Output`] = { type: 'object', additionalProperties: true };
-                step.integrationDetails.outputDefinition = { $ref: `#/definitions/${stepName}Output` };
-              }
-            }
-          });
-        }
+    // Expand file and directory sources so each definition carries where it came from
+    const definitionInputs = props.workflowDefinitions.flatMap((input, index) =>
+      input instanceof WorkflowDefinitionSource
+        ? input.resolve().map(({ filePath, definition }) => ({ input: definition, origin: filePath }))
+        : [{ input, origin: `index ${index}` }]
+    );
 
-        // Create dummy step executors for validation purposes
-        const dummyExecutors = Array.from(integrationTypes).map((type) => ({
-          type,
-          execute: async () => ({ status: 'success' as const, payload: {} }),
-        }));
-
-        // Use the modified definition (with marketplace placeholders) for engine validation
-        const definitionForValidation = JSON.stringify(parsedWorkflow);
-
-        // Generate fake workflow input if a workflowInput definition exists
-        let fakeWorkflowInputForTypeValidation = undefined;
-        if (parsedWorkflow.definitions?.workflowInput) {
-          const jsonSchemaFakerRefs: JSONSchemaFakerRefs = Object.entries(
-            parsedWorkflow.definitions
-          ).reduce(
-            (acc, [key, value]) => {
-              acc[`#/definitions/${key}`] = value as Schema;
-              return acc;
-            },
-            {} as Record<string, Schema>
-          );
-
-          // Configure json-schema-faker to always generate optional fields for thorough validation
-          // Note: requiredOnly must be explicitly reset because the engine's two-pass validation
-          // sets it to true globally during its second pass, which persists across definitions
-          JSONSchemaFaker.option({
-            alwaysFakeOptionals: true,
-            requiredOnly: false,
-          });
-
-          fakeWorkflowInputForTypeValidation = JSONSchemaFaker.generate(
-            parsedWorkflow.definitions.workflowInput as Schema,
-            jsonSchemaFakerRefs
-          ) as Record<string, unknown>;
-        }
-
-        // This will throw if the workflow definition is invalid
-        new JustWorkflowItEngine({
-          workflowDefinition: definitionForValidation,
-          stepExecutors: dummyExecutors,
-          workflowInput: fakeWorkflowInputForTypeValidation,
-        });
+    const workflowDefinitions = definitionInputs.map(({ input, origin }) => {
+      try {
+        return { ...validateWorkflowDefinition(input), origin };
       } catch (error) {
         throw new Error(
-          `Invalid workflow definition at index ${index}: ${error instanceof Error ? error.message : String(error)}`
+          `Invalid workflow definition at ${origin}: ${error instanceof Error ? error.message : String(error)}`
         );
       }
     });
 
-    const secretName = '/justworkflowit/api/authToken';
-    const secret = new Secret(this, 'JustWorkflowItAuthTokenSecret', {
-      secretName,
-      secretStringValue: SecretValue.unsafePlainText('REPLACE_ME_WITH_JUST_WORKFLOW_IT_AUTH_TOKEN'),
-      description: 'Replace this placeholder with your JustWorkflowIt API auth token to enable workflow deployment.',
+    // Workflows are keyed by name from here on, both in S3 and in the custom resource properties
+    const seenWorkflowNames = new Set<string>();
+    workflowDefinitions.forEach(({ workflowName, origin }) => {
+      if (seenWorkflowNames.has(workflowName)) {
+        throw new Error(`Invalid workflow definition at ${origin}: duplicate workflowName "${workflowName}"`);
+      }
+      seenWorkflowNames.add(workflowName);
     });
 
+    const deploymentMode = props.deploymentMode ?? DefinitionDeploymentMode.BATCH;
+    const environment = props.environment ?? JustWorkflowItEnvironment.PRODUCTION;
+    const auth = props.auth ?? JustWorkflowItAuth.staticToken();
+    const placeholderTokenBehavior = props.placeholderTokenBehavior ?? PlaceholderTokenBehavior.SKIP;
+
+    if (props.authSecret && props.authSecretName) {
+      throw new Error('Specify either authSecret or authSecretName, not both');
+    }
+    if (props.executionRole && props.executionRoleName) {
+      throw new Error('Specify either executionRole or executionRoleName, not both');
+    }
+    if (props.executionRole && (props.permissionsBoundary || props.maxSessionDuration)) {
+      throw new Error('permissionsBoundary and maxSessionDuration only apply to a created executionRole; set them on the role you pass in');
+    }
+
+    if (props.authTokenParameter && (props.authSecret || props.authSecretName)) {
+      throw new Error('Specify either authTokenParameter or authSecret/authSecretName, not both');
+    }
+    if (props.redeployOnAuthSecretUpdate && props.authTokenParameter) {
+      throw new Error('redeployOnAuthSecretUpdate needs an auth secret; it does not work with authTokenParameter');
+    }
+    if (props.redeployOnAuthSecretUpdate && deploymentMode !== DefinitionDeploymentMode.BATCH) {
+      throw new Error('redeployOnAuthSecretUpdate only works with deploymentMode BATCH');
+    }
+
+    if (props.deploymentConcurrency !== undefined
+      && !(Number.isInteger(props.deploymentConcurrency) && props.deploymentConcurrency >= 1)) {
+      throw new Error(`deploymentConcurrency must be a positive integer, got ${props.deploymentConcurrency}`);
+    }
+
+    if (props.criticalWorkflows && props.deploymentFailureMode !== DeploymentFailureMode.CONTINUE) {
+      throw new Error('criticalWorkflows only applies with deploymentFailureMode CONTINUE');
+    }
+    // Workflows of JustWorkflowItWorkflow constructs may be bound later, so only BATCH names are checked
+    const unknownCriticalWorkflows = deploymentMode === DefinitionDeploymentMode.BATCH
+      ? (props.criticalWorkflows ?? []).filter((workflowName) => !seenWorkflowNames.has(workflowName))
+      : [];
+    if (unknownCriticalWorkflows.length > 0) {
+      throw new Error(`criticalWorkflows lists unknown workflows: ${unknownCriticalWorkflows.join(', ')}`);
+    }
+
+    if (props.promoteFromTag && props.promoteFromTag === (props.versionTag ?? '$LIVE')) {
+      throw new Error(`promoteFromTag must differ from the version tag "${props.promoteFromTag}"`);
+    }
+
+    const integrationPermissionCheck = props.integrationPermissionCheck ?? IntegrationPermissionCheck.OFF;
+    if ((props.deriveIntegrationPermissions || integrationPermissionCheck !== IntegrationPermissionCheck.OFF) && !props.awsIntegrations) {
+      throw new Error('deriveIntegrationPermissions and integrationPermissionCheck need awsIntegrations to know which steps call AWS resources');
+    }
+
+    // The deployer reads the token from authTokenParameter, or else from the given or created secret
+    let secret: ISecret | undefined;
+    // The created secret's secretName is parsed from its ARN at deploy time, which cuts names
+    // containing '-' short, so the name it was given is kept
+    let secretName: string | undefined;
+    let authTokenSource: { type: 'secretsmanager' | 'ssm'; id: string };
+    if (props.authTokenParameter) {
+      authTokenSource = { type: 'ssm', id: props.authTokenParameter.parameterName };
+    } else {
+      secretName = props.authSecret ? props.authSecret.secretName : props.authSecretName ?? DEFAULT_AUTH_SECRET_NAME;
+      if (!props.authSecret) {
+        claimResourceName(this, 'auth secret', secretName, 'authSecretName', true);
+      }
+      secret = props.authSecret ?? new Secret(this, 'JustWorkflowItAuthTokenSecret', {
+        secretName,
+        secretStringValue: SecretValue.unsafePlainText('REPLACE_ME_WITH_JUST_WORKFLOW_IT_AUTH_TOKEN'),
+        description: auth.mode === 'CLIENT_CREDENTIALS'
+          ? 'Replace this placeholder with {"clientId": "...", "clientSecret": "..."} to enable workflow deployment.'
+          : 'Replace this placeholder with your JustWorkflowIt API auth token to enable workflow deployment.',
+        encryptionKey: props.authTokenEncryptionKey,
+      });
+      authTokenSource = { type: 'secretsmanager', id: secretName };
+    }
+
     const bucket = new Bucket(this, 'WorkflowDefinitionsBucket', {
       removalPolicy: RemovalPolicy.DESTROY,
       autoDeleteObjects: true,
@@ -142,20 +399,38 @@ export class JustWorkflowItConstructs extends Construct {
       encryption: BucketEncryption.S3_MANAGED,
     });
 
-    // Upload each definition and collect its S3 key
-    const definitionKeys: string[] = [];
+    // Upload each definition under a content-hash key, so unchanged definitions produce
+    // identical assets and custom resource properties (and therefore no deployment)
+    const definitionKeys: Record<string, string> = {};
     const deploymentSources: ISource[] = [];
 
-    props.workflowDefinitions.forEach((definition, index) => {
-      const uuidKey = `definitions/${uuidv4()}.json`;
-      definitionKeys.push(uuidKey);
-      deploymentSources.push(Source.data(uuidKey, definition));
-    });
+    if (deploymentMode === DefinitionDeploymentMode.BATCH) {
+      workflowDefinitions.forEach(({ workflowName, definition }) => {
+        this.workflowNames.set(workflowName, undefined);
+        const hashKey = definitionKeyFor(definition);
+        definitionKeys[workflowName] = hashKey;
+        deploymentSources.push(Source.data(hashKey, definition));
+      });
+    }
 
     const bucketDeployment = new BucketDeployment(this, 'WorkflowDefinitionUploads', {
       sources: deploymentSources,
       destinationBucket: bucket,
+      // Deployer state written by the lambda, used to restore $LIVE on rollback
+      exclude: ['state/*'],
     });
+    this.definitionUploads = bucketDeployment;
+
+    const deployerOptions = props.deployerLambdaOptions ?? {};
+    // Shared by the deployer and Provider framework Lambdas; only created when configured so the
+    // default stays the Lambda-managed log group
+    const deployerLogGroup = deployerOptions.logRetention || deployerOptions.logEncryptionKey
+      ? new LogGroup(this, 'JustWorkflowItDefinitionDeployerLogs', {
+        retention: deployerOptions.logRetention ?? RetentionDays.INFINITE,
+        encryptionKey: deployerOptions.logEncryptionKey,
+        removalPolicy: RemovalPolicy.DESTROY,
+      })
+      : undefined;
 
     const integrationLambda = new Function(this, 'JustWorkflowItDefinitionDeployerLambda', {
       functionName: `JustWorkflowItDefinitionDeployer-${props.disambiguator}`,
@@ -164,47 +439,147 @@ export class JustWorkflowItConstructs extends Construct {
       }),
       handler: 'definitionDeployerLambda.handler',
       runtime: Runtime.NODEJS_24_X,
-      timeout: Duration.minutes(5),
+      timeout: deployerOptions.timeout ?? Duration.minutes(5),
+      architecture: deployerOptions.architecture,
+      memorySize: deployerOptions.memorySize,
+      tracing: deployerOptions.tracing,
+      vpc: deployerOptions.vpc,
+      vpcSubnets: deployerOptions.vpcSubnets,
+      securityGroups: deployerOptions.securityGroups,
+      logGroup: deployerLogGroup,
       environment: {
-        AUTH_SECRET_NAME: secretName,
+        AUTH_TOKEN_SOURCE_TYPE: authTokenSource.type,
+        AUTH_TOKEN_SOURCE_ID: authTokenSource.id,
         ORGANIZATION_ID: props.organizationId,
-        API_BASE_URL: 'https://api.justworkflowit.com',
+        API_BASE_URL: environment.apiBaseUrl,
         DEFINITION_BUCKET: bucket.bucketName,
-        DEFINITION_KEYS_JSON: JSON.stringify(definitionKeys),
         IGNORE_FAILURES: String(props.ignoreDefinitionDeployerFailures ?? false),
+        DEPLOYMENT_CONCURRENCY: String(props.deploymentConcurrency ?? 4),
+        WORKFLOW_NAME_MATCHING: props.workflowNameMatching ?? WorkflowNameMatching.EXACT,
+        DEPLOYMENT_FAILURE_MODE: props.deploymentFailureMode ?? DeploymentFailureMode.FAIL_FAST,
+        ...(props.criticalWorkflows && { CRITICAL_WORKFLOWS: JSON.stringify(props.criticalWorkflows) }),
+        ...(props.apiRetryPolicy && { API_RETRY_POLICY: apiRetryPolicyJson(props.apiRetryPolicy) }),
+        AUTH_TOKEN_CACHE_TTL_SECONDS: String((props.authTokenCacheTtl ?? Duration.minutes(5)).toSeconds()),
+        AUTH_MODE: auth.mode,
+        ...(auth.tokenEndpoint && { OAUTH_TOKEN_ENDPOINT: auth.tokenEndpoint }),
+        ...(auth.scopes && { OAUTH_SCOPES: auth.scopes.join(' ') }),
+        PLACEHOLDER_TOKEN_BEHAVIOR: placeholderTokenBehavior,
+        ...(props.redeployOnAuthSecretUpdate && { REDEPLOY_ON_AUTH_SECRET_UPDATE: 'true' }),
       },
     });
 
-    secret.grantRead(integrationLambda);
+    secret?.grantRead(integrationLambda);
+    props.authTokenParameter?.grantRead(integrationLambda);
+    props.authTokenEncryptionKey?.grantDecrypt(integrationLambda);
     bucket.grantRead(integrationLambda);
+    bucket.grantPut(integrationLambda, 'state/*');
+
+    // The deployer publishes 1 while it sees the placeholder and 0 once it sees a real token. Between
+    // deployments there's no data, so the alarm stays in ALARM until a deployment clears it
+    if (placeholderTokenBehavior === PlaceholderTokenBehavior.WARN_WITH_ALARM) {
+      this.placeholderTokenAlarm = new Metric({
+        namespace: DEPLOYER_METRICS_NAMESPACE,
+        metricName: 'PlaceholderTokenDetected',
+        dimensionsMap: { FunctionName: integrationLambda.functionName },
+        statistic: Stats.MAXIMUM,
+        period: Duration.minutes(5),
+      }).createAlarm(this, 'JustWorkflowItPlaceholderTokenAlarm', {
+        alarmDescription: 'The JustWorkflowIt auth secret still holds the placeholder token, so no workflows were deployed',
+        threshold: 1,
+        evaluationPeriods: 1,
+        comparisonOperator: ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: TreatMissingData.IGNORE,
+      });
+    }
 
     const provider = new Provider(this, 'JustWorkflowItDefinitionDeployerTriggerProvider', {
       onEventHandler: integrationLambda,
+      vpc: deployerOptions.vpc,
+      vpcSubnets: deployerOptions.vpcSubnets,
+      securityGroups: deployerOptions.securityGroups,
+      logGroup: deployerLogGroup,
     });
 
-    const resource = new CustomResource(this, 'JustWorkflowItDefinitionDeployerTrigger', {
-      serviceToken: provider.serviceToken,
-      properties: {
-        timestamp: new Date().toISOString(),
-      },
+    // The Provider has no props for these, so set them on its framework Lambda directly
+    provider.node.findAll()
+      .filter((child): child is Function => child instanceof Function)
+      .forEach((frameworkLambda) => {
+        const cfnFunction = frameworkLambda.node.defaultChild as CfnFunction;
+        if (deployerOptions.architecture) {
+          cfnFunction.architectures = [deployerOptions.architecture.name];
+        }
+        if (deployerOptions.memorySize) {
+          cfnFunction.memorySize = deployerOptions.memorySize;
+        }
+        if (deployerOptions.tracing && deployerOptions.tracing !== Tracing.DISABLED) {
+          cfnFunction.tracingConfig = { mode: deployerOptions.tracing };
+          frameworkLambda.addToRolePolicy(
+            new PolicyStatement({
+              actions: ['xray:PutTraceSegments', 'xray:PutTelemetryRecords'],
+              resources: ['*'],
+            })
+          );
+        }
+      });
+
+    Object.entries(deployerOptions.tags ?? {}).forEach(([key, value]) => {
+      [integrationLambda, provider, deployerLogGroup].forEach((scope) => scope && Tags.of(scope).add(key, value));
     });
 
     provider.node.addDependency(bucketDeployment);
-    resource.node.addDependency(bucketDeployment);
+    this.deployerServiceToken = provider.serviceToken;
+    this.deploymentRevision = props.deploymentRevision;
+    this.workflowRemovalPolicy = props.workflowRemovalPolicy;
+    this.versionTag = props.versionTag;
+    this.promoteFromTag = props.promoteFromTag;
+    this.awsIntegrations = props.awsIntegrations ?? {};
+    this.deriveIntegrationPermissions = props.deriveIntegrationPermissions ?? false;
 
-    // JustWorkflowIt production account - this is the account where the workflow execution engine runs
-    // The execution role created here allows JustWorkflowIt to assume it and perform actions in the customer's account
-    const JUSTWORKFLOWIT_PRODUCTION_ACCOUNT = '588738588052';
+    // The execution role allows the environment's workflow execution engine to assume it and
+    // perform actions in the customer's account. Local environments trust the stack's own account.
+    // Every condition must hold: the external ID plus any optional restrictions
+    const trustedAccountId = props.trustedAccountId ?? environment.accountId ?? Stack.of(this).account;
+    const trustConditions: Record<string, Record<string, unknown>> = {
+      StringEquals: {
+        'sts:ExternalId': environment.externalId.resolve(props.organizationId),
+        ...(props.trustedWorkflowIds && {
+          [`aws:RequestTag/${WORKFLOW_ID_SESSION_TAG}`]: props.trustedWorkflowIds,
+        }),
+        ...(props.trustedSourceVpces && { 'aws:SourceVpce': props.trustedSourceVpces }),
+      },
+      ...(props.trustedSourceIps && { IpAddress: { 'aws:SourceIp': props.trustedSourceIps } }),
+    };
+    // Session tags can only be checked when the role also allows sts:TagSession
+    const trustedPrincipal: IPrincipal = props.trustedWorkflowIds
+      ? new SessionTagsPrincipal(new AccountPrincipal(trustedAccountId).withConditions(trustConditions))
+      : new AccountPrincipal(trustedAccountId).withConditions(trustConditions);
 
-    const executionRole = new Role(this, 'JustWorkflowItAutomationExecutionRole', {
-      roleName: `JustWorkflowItExecutionRole`,
-      assumedBy: new AccountPrincipal(JUSTWORKFLOWIT_PRODUCTION_ACCOUNT),
-      externalIds: [props.organizationId],
+    const executionRoleName = props.executionRoleName ?? DEFAULT_EXECUTION_ROLE_NAME;
+    if (!props.executionRole) {
+      claimResourceName(this, 'execution role', executionRoleName, 'executionRoleName', false); // Role names are global to the account
+    }
+    this.executionRole = props.executionRole ?? new Role(this, 'JustWorkflowItAutomationExecutionRole', {
+      roleName: executionRoleName,
+      assumedBy: trustedPrincipal,
+      permissionsBoundary: props.permissionsBoundary,
+      maxSessionDuration: props.maxSessionDuration,
       description: 'Role assumed by JustWorkflowIt backend to perform workflow actions in this account.',
     });
 
+    // A shared role created by another instance must also trust this instance's organization.
+    // Imported roles can't be modified here, so their trust policy must already allow it.
+    if (props.executionRole instanceof Role) {
+      props.executionRole.assumeRolePolicy?.addStatements(
+        new PolicyStatement({
+          actions: props.trustedWorkflowIds ? ['sts:AssumeRole', 'sts:TagSession'] : ['sts:AssumeRole'],
+          principals: [new AccountPrincipal(trustedAccountId)],
+          conditions: trustConditions,
+        })
+      );
+    }
+
     if (props.lambdaArns && props.lambdaArns.length > 0) {
-      executionRole.addToPolicy(
+      this.addGrantedStatement(
         new PolicyStatement({
           actions: ['lambda:InvokeFunction'],
           resources: props.lambdaArns,
@@ -213,7 +588,7 @@ export class JustWorkflowItConstructs extends Construct {
     }
 
     if (props.snsTopicArns && props.snsTopicArns.length > 0) {
-      executionRole.addToPolicy(
+      this.addGrantedStatement(
         new PolicyStatement({
           actions: ['sns:Publish'],
           resources: props.snsTopicArns,
@@ -222,7 +597,7 @@ export class JustWorkflowItConstructs extends Construct {
     }
 
     if (props.sqsQueueArns && props.sqsQueueArns.length > 0) {
-      executionRole.addToPolicy(
+      this.addGrantedStatement(
         new PolicyStatement({
           actions: ['sqs:SendMessage'],
           resources: props.sqsQueueArns,
@@ -230,6 +605,272 @@ export class JustWorkflowItConstructs extends Construct {
       );
     }
 
-    this.executionRole = executionRole;
+    this.authSecret = secret;
+
+    props.lambdaFunctions?.forEach((fn) => this.grantInvoke(fn));
+    props.snsTopics?.forEach((topic) => this.grantPublish(topic));
+    props.sqsQueues?.forEach((queue) => this.grantSendMessages(queue));
+    props.stateMachines?.forEach((stateMachine) => this.grantStartExecution(stateMachine));
+    props.eventBuses?.forEach((eventBus) => this.grantPutEvents(eventBus));
+    props.kinesisStreams?.forEach((stream) => this.grantStreamWrite(stream));
+    props.firehoseDeliveryStreams?.forEach((deliveryStream) => this.grantPutRecords(deliveryStream));
+    props.dynamoDbTables?.forEach((table) => this.grantReadWriteData(table));
+    props.s3Buckets?.forEach((bucket) => this.grantReadWriteObjects(bucket));
+    props.apiGatewayRoutes?.forEach((route) => this.grantInvokeApi(route));
+
+    if (deploymentMode === DefinitionDeploymentMode.BATCH) {
+      const triggerProperties = {
+        DefinitionKeys: definitionKeys,
+        ...(props.deploymentRevision && { DeploymentRevision: props.deploymentRevision }),
+        ...(props.workflowRemovalPolicy && { RemovalPolicy: props.workflowRemovalPolicy }),
+        ...(props.versionTag && { VersionTag: props.versionTag }),
+        ...(props.promoteFromTag && { PromoteFromTag: props.promoteFromTag }),
+      };
+      this.deployerTrigger = new CustomResource(this, 'JustWorkflowItDefinitionDeployerTrigger', {
+        serviceToken: provider.serviceToken,
+        properties: triggerProperties,
+      });
+      this.deployerTrigger.node.addDependency(bucketDeployment);
+      workflowDefinitions.forEach(({ definition }) => this.addIntegrationTargets(definition));
+
+      // A secret is always set here; authTokenParameter was rejected above
+      if (props.redeployOnAuthSecretUpdate && secret && secretName) {
+        Annotations.of(this).addWarningV2(
+          '@justworkflowit/cdk-constructs:redeployOnAuthSecretUpdate',
+          'redeployOnAuthSecretUpdate matches Secrets Manager calls recorded by CloudTrail. Without a trail logging '
+          + 'management events in this account and region, updating the auth secret does not redeploy the definitions.'
+        );
+
+        // CloudTrail records the secret ID as the caller passed it: the name, a partial ARN without
+        // the random suffix or the full ARN. Imported secrets may not know the suffix either, so
+        // match by prefix
+        const secretArnWithoutSuffix = Arn.format({
+          service: 'secretsmanager',
+          resource: 'secret',
+          resourceName: secretName,
+          arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+          account: secret.env.account,
+          region: secret.env.region,
+        }, Stack.of(this));
+        const authSecretUpdatedRule = new Rule(this, 'JustWorkflowItAuthSecretUpdatedRule', {
+          description: 'Redeploys JustWorkflowIt workflow definitions when the auth secret is updated',
+          eventPattern: {
+            source: ['aws.secretsmanager'],
+            detailType: ['AWS API Call via CloudTrail'],
+            detail: {
+              eventSource: ['secretsmanager.amazonaws.com'],
+              eventName: ['PutSecretValue', 'UpdateSecret'],
+              requestParameters: { secretId: [{ prefix: secretName }, { prefix: secretArnWithoutSuffix }] },
+            },
+          },
+          targets: [
+            new LambdaFunction(integrationLambda, {
+              event: RuleTargetInput.fromObject({ RequestType: 'Redeploy', ResourceProperties: triggerProperties }),
+            }),
+          ],
+        });
+        // The manifest in the event points at the uploaded definitions
+        authSecretUpdatedRule.node.addDependency(bucketDeployment);
+      }
+    } else {
+      // Each workflow registers itself in workflowNames and workflows when it binds; setting it
+      // again keeps the instance without relying on that side effect
+      workflowDefinitions.forEach(({ workflowName, definition }) => {
+        this.workflowNames.set(workflowName, new JustWorkflowItWorkflow(this, `Workflow-${workflowName.replace(/\//g, '-')}`, {
+          integration: this,
+          definition,
+        }));
+      });
+    }
+
+    if (integrationPermissionCheck !== IntegrationPermissionCheck.OFF) {
+      // Runs at synth, after grants made on the construct and workflows added after construction
+      this.node.addValidation({
+        validate: () => {
+          const problems = findIntegrationPermissionProblems(
+            this.integrationTargets,
+            this.grantedStatements,
+            this.awsIntegrations,
+            this.deriveIntegrationPermissions
+          );
+          if (integrationPermissionCheck === IntegrationPermissionCheck.FAIL) {
+            return problems;
+          }
+          problems.forEach((problem) =>
+            Annotations.of(this).addWarningV2('@justworkflowit/cdk-constructs:integrationPermissions', problem)
+          );
+          return [];
+        },
+      });
+    }
+  }
+
+  /**
+   * Lets JustWorkflowIt invoke a Lambda function through executionRole.
+   */
+  public grantInvoke(fn: IFunction): Grant {
+    return this.trackGrant(fn.grantInvoke(this.executionRole));
+  }
+
+  /**
+   * Lets JustWorkflowIt publish to an SNS topic through executionRole, including use of the
+   * topic's KMS key when it is encrypted.
+   */
+  public grantPublish(topic: ITopic): Grant {
+    return this.trackGrant(topic.grantPublish(this.executionRole));
+  }
+
+  /**
+   * Lets JustWorkflowIt send messages to an SQS queue through executionRole, including use of the
+   * queue's KMS key when it is encrypted.
+   */
+  public grantSendMessages(queue: IQueue): Grant {
+    return this.trackGrant(queue.grantSendMessages(this.executionRole));
+  }
+
+  /**
+   * Lets JustWorkflowIt start executions of a Step Functions state machine through executionRole.
+   */
+  public grantStartExecution(stateMachine: IStateMachine): Grant {
+    return this.trackGrant(stateMachine.grantStartExecution(this.executionRole));
+  }
+
+  /**
+   * Lets JustWorkflowIt put events on an EventBridge bus through executionRole.
+   */
+  public grantPutEvents(eventBus: IEventBus): Grant {
+    return this.trackGrant(eventBus.grantPutEventsTo(this.executionRole));
+  }
+
+  /**
+   * Lets JustWorkflowIt write records to a Kinesis data stream through executionRole, including
+   * use of the stream's KMS key when it is encrypted.
+   */
+  public grantStreamWrite(stream: IStream): Grant {
+    return this.trackGrant(stream.grantWrite(this.executionRole));
+  }
+
+  /**
+   * Lets JustWorkflowIt put records on a Firehose delivery stream through executionRole.
+   */
+  public grantPutRecords(deliveryStream: IDeliveryStream): Grant {
+    return this.trackGrant(deliveryStream.grantPutRecords(this.executionRole));
+  }
+
+  /**
+   * Lets JustWorkflowIt read and write items in a DynamoDB table through executionRole, including
+   * use of the table's KMS key when it is encrypted.
+   */
+  public grantReadWriteData(table: ITable): Grant {
+    return this.trackGrant(table.grantReadWriteData(this.executionRole));
+  }
+
+  /**
+   * Lets JustWorkflowIt read and write objects in an S3 bucket through executionRole, optionally
+   * limited to keys matching `objectsKeyPattern`, including use of the bucket's KMS key.
+   */
+  public grantReadWriteObjects(bucket: IBucket, objectsKeyPattern?: string): Grant {
+    return this.trackGrant(bucket.grantReadWrite(this.executionRole, objectsKeyPattern));
+  }
+
+  /**
+   * Lets JustWorkflowIt call an IAM-authorized API Gateway route through executionRole.
+   */
+  public grantInvokeApi(route: ApiGatewayRoute): Grant {
+    return this.trackGrant(
+      Grant.addToPrincipal({
+        grantee: this.executionRole,
+        actions: ['execute-api:Invoke'],
+        resourceArns: [route.api.arnForExecuteApi(route.method, route.path, route.stage)],
+      })
+    );
+  }
+
+  private trackGrant(grant: Grant): Grant {
+    this.grantedStatements.push(...grant.principalStatements);
+    return grant;
+  }
+
+  private addGrantedStatement(statement: PolicyStatement): void {
+    this.executionRole.addToPrincipalPolicy(statement);
+    this.grantedStatements.push(statement);
+  }
+
+  /**
+   * Records the AWS resources a definition's steps call and, with deriveIntegrationPermissions,
+   * grants executionRole exactly those.
+   */
+  private addIntegrationTargets(definition: string): void {
+    const targets = integrationTargetsOf(definition, this.awsIntegrations);
+    this.integrationTargets.push(...targets);
+
+    if (this.deriveIntegrationPermissions) {
+      targets
+        .filter(hasResourceArn)
+        .forEach((target) => this.executionRole.addToPrincipalPolicy(integrationTargetStatement(target)));
+    }
+  }
+
+  /**
+   * ID of a deployed workflow, resolved at deploy time. Empty while the placeholder token is in place.
+   */
+  public getWorkflowId(workflowName: string): string {
+    return this.getWorkflowAttribute(workflowName, 'WorkflowId');
+  }
+
+  /**
+   * Version ID carrying the version tag ($LIVE by default) for a deployed workflow, resolved at deploy time.
+   * Empty while the placeholder token is in place.
+   */
+  public getLiveVersionId(workflowName: string): string {
+    return this.getWorkflowAttribute(workflowName, 'VersionId');
+  }
+
+  private getWorkflowAttribute(workflowName: string, attribute: 'WorkflowId' | 'VersionId'): string {
+    if (!this.workflowNames.has(workflowName)) {
+      throw new Error(`No workflow named "${workflowName}" is deployed by ${this.node.path}`);
+    }
+
+    // Batch-deployed workflows are attributes of the batch custom resource, e.g. Workflows.orders.WorkflowId
+    const workflow = this.workflowNames.get(workflowName);
+    if (!workflow) {
+      return this.deployerTrigger!.getAttString(`Workflows.${workflowName}.${attribute}`);
+    }
+    return attribute === 'WorkflowId' ? workflow.workflowId : workflow.versionId;
+  }
+
+  /**
+   * Uploads a workflow's definition and returns what its custom resource needs.
+   * Called by JustWorkflowItWorkflow; not intended for direct use.
+   * @internal
+   */
+  public _bindWorkflow(workflow: JustWorkflowItWorkflow, validated: ValidatedWorkflowDefinition): {
+    serviceToken: string;
+    definitionKey: string;
+    deploymentRevision?: string;
+    removalPolicy?: WorkflowRemovalPolicy;
+    versionTag?: string;
+    promoteFromTag?: string;
+    dependency: IDependable;
+  } {
+    if (this.workflowNames.has(validated.workflowName)) {
+      throw new Error(`Duplicate workflowName "${validated.workflowName}" in ${this.node.path}`);
+    }
+    this.workflowNames.set(validated.workflowName, workflow);
+    this.workflows.push(workflow);
+    this.addIntegrationTargets(validated.definition);
+
+    const definitionKey = definitionKeyFor(validated.definition);
+    this.definitionUploads.addSource(Source.data(definitionKey, validated.definition));
+
+    return {
+      serviceToken: this.deployerServiceToken,
+      definitionKey,
+      deploymentRevision: this.deploymentRevision,
+      removalPolicy: this.workflowRemovalPolicy,
+      versionTag: this.versionTag,
+      promoteFromTag: this.promoteFromTag,
+      dependency: this.definitionUploads,
+    };
   }
 }
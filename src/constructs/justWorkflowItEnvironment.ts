@@ -0,0 +1,102 @@
+import { Token } from 'aws-cdk-lib';
+
+/**
+ * How the external ID JustWorkflowIt presents when assuming executionRole is derived.
+ */
+export abstract class ExternalIdStrategy {
+  /**
+   * The JustWorkflowIt organization ID. Used by the production environment.
+   */
+  public static organizationId(): ExternalIdStrategy {
+    return new (class extends ExternalIdStrategy {
+      public resolve(organizationId: string): string {
+        return organizationId;
+      }
+    })();
+  }
+
+  /**
+   * A fixed external ID, e.g. one issued by a JustWorkflowIt environment per customer.
+   */
+  public static of(externalId: string): ExternalIdStrategy {
+    return new (class extends ExternalIdStrategy {
+      public resolve(): string {
+        return externalId;
+      }
+    })();
+  }
+
+  /**
+   * The external ID for an organization. Called by the construct at synth time.
+   */
+  public abstract resolve(organizationId: string): string;
+}
+
+export interface JustWorkflowItEnvironmentProps {
+  readonly apiBaseUrl: string; // JustWorkflowIt API the deployer Lambda registers workflows with
+  readonly accountId: string; // Account the JustWorkflowIt execution engine assumes executionRole from
+  /**
+   * @default ExternalIdStrategy.organizationId()
+   */
+  readonly externalId?: ExternalIdStrategy;
+}
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]', 'host.docker.internal'];
+
+const validateApiBaseUrl = (apiBaseUrl: string): void => {
+  if (Token.isUnresolved(apiBaseUrl)) {
+    return;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(apiBaseUrl);
+  } catch {
+    throw new Error(`Invalid JustWorkflowIt API base URL "${apiBaseUrl}"`);
+  }
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && LOCAL_HOSTNAMES.includes(url.hostname))) {
+    throw new Error(`JustWorkflowIt API base URL "${apiBaseUrl}" must use https unless it points at a local host`);
+  }
+};
+
+/**
+ * The JustWorkflowIt deployment a construct talks to: the API the deployer Lambda calls and the
+ * account and external ID executionRole trusts.
+ */
+export class JustWorkflowItEnvironment {
+  public static readonly PRODUCTION = new JustWorkflowItEnvironment({
+    apiBaseUrl: 'https://api.justworkflowit.com',
+    // Account where the workflow execution engine runs
+    accountId: '588738588052',
+  });
+
+  /**
+   * A staging, regional or data-residency environment.
+   */
+  public static custom(props: JustWorkflowItEnvironmentProps): JustWorkflowItEnvironment {
+    // Checked for JavaScript callers; trusting the stack's own account is only right for local()
+    if (!props.accountId) {
+      throw new Error(`JustWorkflowIt environment "${props.apiBaseUrl}" needs the accountId executionRole trusts`);
+    }
+    return new JustWorkflowItEnvironment(props);
+  }
+
+  /**
+   * A local or mock API for tests, e.g. LocalStack or a stub server. executionRole trusts the
+   * stack's own account.
+   */
+  public static local(apiBaseUrl = 'http://localhost:4010'): JustWorkflowItEnvironment {
+    return new JustWorkflowItEnvironment({ apiBaseUrl });
+  }
+
+  public readonly apiBaseUrl: string;
+  public readonly accountId?: string; // Undefined to trust the stack's own account
+  public readonly externalId: ExternalIdStrategy;
+
+  private constructor(props: Omit<JustWorkflowItEnvironmentProps, 'accountId'> & { accountId?: string }) {
+    validateApiBaseUrl(props.apiBaseUrl);
+    this.apiBaseUrl = props.apiBaseUrl;
+    this.accountId = props.accountId;
+    this.externalId = props.externalId ?? ExternalIdStrategy.organizationId();
+  }
+}
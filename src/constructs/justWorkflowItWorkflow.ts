@@ -0,0 +1,66 @@
+import { CustomResource } from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { JustWorkflowItConstructs, WorkflowRemovalPolicy } from './justWorkflowItConstructs';
+import {
+  InlineWorkflowDefinition,
+  validateWorkflowDefinition,
+} from './workflowDefinitionValidation';
+
+export interface JustWorkflowItWorkflowProps {
+  integration: JustWorkflowItConstructs; // Provides the shared definition bucket and deployer provider
+  definition: InlineWorkflowDefinition;
+  removalPolicy?: WorkflowRemovalPolicy; // Applied when this workflow is removed from the stack (default: the integration's workflowRemovalPolicy, else RETAIN)
+  versionTag?: string; // Tag moved to the deployed version (default: the integration's versionTag, else '$LIVE')
+  promoteFromTag?: string; // Promote the version already carrying this tag instead of registering the definition (default: the integration's promoteFromTag)
+}
+
+/**
+ * A single workflow deployed by its own custom resource, so a failing workflow only fails its
+ * own resource. Attributes resolve at deploy time and are empty while the placeholder token is
+ * in place or when the failure was ignored.
+ */
+export class JustWorkflowItWorkflow extends Construct {
+  public readonly workflowId: string;
+  public readonly versionId: string;
+  public readonly workflowName: string;
+  public readonly resource: CustomResource;
+
+  constructor(scope: Construct, id: string, props: JustWorkflowItWorkflowProps) {
+    super(scope, id);
+
+    let validated;
+    try {
+      validated = validateWorkflowDefinition(props.definition);
+    } catch (error) {
+      throw new Error(
+        `Invalid workflow definition for ${this.node.path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const binding = props.integration._bindWorkflow(this, validated);
+    const removalPolicy = props.removalPolicy ?? binding.removalPolicy;
+    const versionTag = props.versionTag ?? binding.versionTag;
+    const promoteFromTag = props.promoteFromTag ?? binding.promoteFromTag;
+
+    if (promoteFromTag && promoteFromTag === (versionTag ?? '$LIVE')) {
+      throw new Error(`promoteFromTag must differ from the version tag "${promoteFromTag}" in ${this.node.path}`);
+    }
+
+    this.resource = new CustomResource(this, 'Resource', {
+      serviceToken: binding.serviceToken,
+      properties: {
+        WorkflowName: validated.workflowName,
+        DefinitionKey: binding.definitionKey,
+        ...(binding.deploymentRevision && { DeploymentRevision: binding.deploymentRevision }),
+        ...(removalPolicy && { RemovalPolicy: removalPolicy }),
+        ...(versionTag && { VersionTag: versionTag }),
+        ...(promoteFromTag && { PromoteFromTag: promoteFromTag }),
+      },
+    });
+    this.resource.node.addDependency(binding.dependency);
+
+    this.workflowId = this.resource.getAttString('WorkflowId');
+    this.versionId = this.resource.getAttString('VersionId');
+    this.workflowName = this.resource.getAttString('WorkflowName');
+  }
+}
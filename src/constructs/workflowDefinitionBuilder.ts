@@ -0,0 +1,214 @@
+import { JustWorkflowItWorkflowDefinition } from '@justworkflowit/engine';
+
+type WorkflowStepDefinition = JustWorkflowItWorkflowDefinition['steps'][number];
+type WorkflowIntegrationDetails = WorkflowStepDefinition['integrationDetails'];
+
+export type WorkflowInputTransformer = NonNullable<
+  WorkflowIntegrationDetails['inputTransformer']
+>;
+export type WorkflowSchema = NonNullable<
+  JustWorkflowItWorkflowDefinition['definitions']
+>[string];
+
+/**
+ * Anything that can produce a typed workflow definition. The construct accepts
+ * these alongside raw JSON strings and plain definition objects.
+ */
+export interface IWorkflowDefinitionBuilder {
+  build(): JustWorkflowItWorkflowDefinition;
+}
+
+export const isWorkflowDefinitionBuilder = (
+  value: unknown
+): value is IWorkflowDefinitionBuilder =>
+  typeof (value as IWorkflowDefinitionBuilder | undefined)?.build ===
+  'function';
+
+const REF_PREFIX = '#/definitions/';
+
+const definitionRef = (name: string) => ({ $ref: `${REF_PREFIX}${name}` });
+
+/**
+ * Fluent builder for a single workflow step. Definition names passed to
+ * `input`/`output` are checked against the definitions declared on the
+ * parent workflow builder, so a typo is a compile error.
+ */
+export class WorkflowStepBuilder<TDefinitions extends string = string> {
+  private integrationType?: string;
+  private integrationConfig?: Record<string, unknown>;
+  private inputDefinitionName?: string;
+  private outputDefinitionName?: string;
+  private transformer?: WorkflowInputTransformer;
+  private retryCount?: number;
+  private timeout?: number;
+  private nextStepName: string | null = null;
+
+  constructor(public readonly name: string) {}
+
+  public integration(type: string, config?: Record<string, unknown>): this {
+    this.integrationType = type;
+    this.integrationConfig = config;
+    return this;
+  }
+
+  public input(definitionName: TDefinitions): this {
+    this.inputDefinitionName = definitionName;
+    return this;
+  }
+
+  public output(definitionName: TDefinitions): this {
+    this.outputDefinitionName = definitionName;
+    return this;
+  }
+
+  public inputTransformer(transformer: WorkflowInputTransformer): this {
+    this.transformer = transformer;
+    return this;
+  }
+
+  public retries(retries: number): this {
+    this.retryCount = retries;
+    return this;
+  }
+
+  public timeoutSeconds(timeoutSeconds: number): this {
+    this.timeout = timeoutSeconds;
+    return this;
+  }
+
+  public transitionTo(stepName: string | null): this {
+    this.nextStepName = stepName;
+    return this;
+  }
+
+  /** @internal */
+  public toStepDefinition(
+    workflowName: string,
+    stepNames: Set<string>,
+    definitionNames: Set<string>
+  ): WorkflowStepDefinition {
+    const where = `Workflow "${workflowName}", step "${this.name}"`;
+
+    if (!this.integrationType) {
+      throw new Error(`${where}: missing integration type, call .integration()`);
+    }
+    if (this.retryCount === undefined) {
+      throw new Error(`${where}: missing retries, call .retries()`);
+    }
+    if (this.timeout === undefined) {
+      throw new Error(`${where}: missing timeout, call .timeoutSeconds()`);
+    }
+    if (this.nextStepName !== null && !stepNames.has(this.nextStepName)) {
+      throw new Error(
+        `${where}: transitionToStep references unknown step "${this.nextStepName}"`
+      );
+    }
+    [this.inputDefinitionName, this.outputDefinitionName].forEach((name) => {
+      if (name !== undefined && !definitionNames.has(name)) {
+        throw new Error(
+          `${where}: $ref "${REF_PREFIX}${name}" references an undeclared definition`
+        );
+      }
+    });
+
+    const integrationDetails: WorkflowIntegrationDetails & {
+      config?: Record<string, unknown>;
+    } = {
+      type: this.integrationType,
+      ...(this.integrationConfig && { config: this.integrationConfig }),
+      ...(this.inputDefinitionName && {
+        inputDefinition: definitionRef(this.inputDefinitionName),
+      }),
+      ...(this.outputDefinitionName && {
+        outputDefinition: definitionRef(this.outputDefinitionName),
+      }),
+      ...(this.transformer && { inputTransformer: this.transformer }),
+    };
+
+    return {
+      name: this.name,
+      retries: this.retryCount,
+      timeoutSeconds: this.timeout,
+      transitionToStep: this.nextStepName,
+      integrationDetails,
+    };
+  }
+}
+
+/**
+ * Fluent builder for a workflow definition:
+ *
+ * ```ts
+ * WorkflowDefinitionBuilder.workflow('orderWorkflow')
+ *   .definition('chargeInput', { type: 'object', properties: {} })
+ *   .definition('chargeOutput', { type: 'object', properties: {} })
+ *   .step('charge', (step) =>
+ *     step
+ *       .integration('chargeCard')
+ *       .input('chargeInput')
+ *       .output('chargeOutput')
+ *       .retries(2)
+ *       .timeoutSeconds(60)
+ *   );
+ * ```
+ *
+ * Declare definitions before the steps that reference them. Unknown
+ * `transitionToStep` targets and duplicate names are reported by `build()`.
+ */
+export class WorkflowDefinitionBuilder<TDefinitions extends string = never>
+  implements IWorkflowDefinitionBuilder
+{
+  public static workflow(workflowName: string): WorkflowDefinitionBuilder {
+    return new WorkflowDefinitionBuilder(workflowName);
+  }
+
+  private readonly definitions: Record<string, WorkflowSchema> = {};
+  private readonly steps: WorkflowStepBuilder<string>[] = [];
+
+  private constructor(public readonly workflowName: string) {}
+
+  public definition<TName extends string>(
+    name: TName,
+    schema: WorkflowSchema
+  ): WorkflowDefinitionBuilder<TDefinitions | TName> {
+    if (name in this.definitions) {
+      throw new Error(
+        `Workflow "${this.workflowName}": definition "${name}" is declared more than once`
+      );
+    }
+    this.definitions[name] = schema;
+    return this as unknown as WorkflowDefinitionBuilder<TDefinitions | TName>;
+  }
+
+  public step(
+    name: string,
+    configure: (
+      step: WorkflowStepBuilder<TDefinitions>
+    ) => WorkflowStepBuilder<TDefinitions>
+  ): this {
+    if (this.steps.some((step) => step.name === name)) {
+      throw new Error(
+        `Workflow "${this.workflowName}": step "${name}" is declared more than once`
+      );
+    }
+    this.steps.push(configure(new WorkflowStepBuilder<TDefinitions>(name)));
+    return this;
+  }
+
+  public build(): JustWorkflowItWorkflowDefinition {
+    if (this.steps.length === 0) {
+      throw new Error(`Workflow "${this.workflowName}": has no steps`);
+    }
+
+    const stepNames = new Set(this.steps.map((step) => step.name));
+    const definitionNames = new Set(Object.keys(this.definitions));
+
+    return {
+      workflowName: this.workflowName,
+      steps: this.steps.map((step) =>
+        step.toStepDefinition(this.workflowName, stepNames, definitionNames)
+      ),
+      definitions: { ...this.definitions },
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface WorkflowDefinitionFile {
+  readonly filePath: string;
+  readonly definition: string; // Raw JSON contents of the file
+}
+
+export interface WorkflowDefinitionDirectoryOptions {
+  /**
+   * Glob matched against paths relative to the directory. Supports `*`, `?` and `**`.
+   * @default '*.json'
+   */
+  readonly glob?: string;
+}
+
+const globToRegExp = (glob: string): RegExp => {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches zero or more directories, a trailing `**` matches anything
+      const slash = glob[i + 2] === '/';
+      pattern += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+};
+
+const listFilesRecursively = (directory: string, relativeTo = ''): string[] =>
+  fs.readdirSync(path.join(directory, relativeTo), { withFileTypes: true })
+    .flatMap((entry) => {
+      const relativePath = relativeTo ? `${relativeTo}/${entry.name}` : entry.name;
+      return entry.isDirectory()
+        ? listFilesRecursively(directory, relativePath)
+        : [relativePath];
+    });
+
+const readDefinitionFile = (filePath: string): WorkflowDefinitionFile => {
+  try {
+    return { filePath, definition: fs.readFileSync(filePath, 'utf8') };
+  } catch (error) {
+    throw new Error(
+      `Could not read workflow definition file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+};
+
+/**
+ * Workflow definitions loaded from the file system at synth time. Pass these in
+ * `workflowDefinitions` alongside strings, objects and builders.
+ */
+export abstract class WorkflowDefinitionSource {
+  /**
+   * A single `.json` workflow definition file.
+   */
+  public static fromFile(filePath: string): WorkflowDefinitionSource {
+    return new (class extends WorkflowDefinitionSource {
+      public resolve(): WorkflowDefinitionFile[] {
+        return [readDefinitionFile(filePath)];
+      }
+    })();
+  }
+
+  /**
+   * Every file in a directory matching `options.glob`, in path order.
+   */
+  public static fromDirectory(
+    directory: string,
+    options: WorkflowDefinitionDirectoryOptions = {}
+  ): WorkflowDefinitionSource {
+    const glob = options.glob ?? '*.json';
+
+    return new (class extends WorkflowDefinitionSource {
+      public resolve(): WorkflowDefinitionFile[] {
+        if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+          throw new Error(`Workflow definition directory ${directory} does not exist`);
+        }
+
+        const matcher = globToRegExp(glob);
+        const files = listFilesRecursively(directory)
+          .filter((relativePath) => matcher.test(relativePath))
+          .sort();
+
+        if (files.length === 0) {
+          throw new Error(`No workflow definitions matching "${glob}" found in ${directory}`);
+        }
+
+        return files.map((relativePath) =>
+          readDefinitionFile(path.join(directory, relativePath))
+        );
+      }
+    })();
+  }
+
+  /**
+   * Reads the definitions. Called by the construct at synth time.
+   */
+  public abstract resolve(): WorkflowDefinitionFile[];
+}
@@ -0,0 +1,141 @@
+import {
+  JustWorkflowItEngine,
+  JustWorkflowItWorkflowDefinition,
+} from '@justworkflowit/engine';
+import {
+  JSONSchemaFaker,
+  JSONSchemaFakerRefs,
+  Schema,
+} from 'json-schema-faker';
+import {
+  IWorkflowDefinitionBuilder,
+  isWorkflowDefinitionBuilder,
+} from './workflowDefinitionBuilder';
+
+/**
+ * A single workflow definition as a JSON string, a typed definition object, or a builder.
+ */
+export type InlineWorkflowDefinition =
+  | string
+  | JustWorkflowItWorkflowDefinition
+  | IWorkflowDefinitionBuilder;
+
+// The parts of a step the synth-time validation looks at
+type WorkflowStep = {
+  name?: string;
+  integrationDetails?: {
+    type?: string;
+    inputDefinition?: unknown;
+    outputDefinition?: unknown;
+  };
+};
+
+export interface ValidatedWorkflowDefinition {
+  workflowName: string;
+  definition: string; // Serialized JSON, as uploaded and registered
+}
+
+const serializeWorkflowDefinition = (input: InlineWorkflowDefinition): string => {
+  if (typeof input === 'string') {
+    return input;
+  }
+  if (isWorkflowDefinitionBuilder(input)) {
+    return JSON.stringify(input.build());
+  }
+  return JSON.stringify(input);
+};
+
+/**
+ * Serializes a workflow definition and validates it with the JustWorkflowIt engine at CDK synth time.
+ * Throws if the definition is invalid; callers add where the definition came from to the message.
+ */
+export const validateWorkflowDefinition = (
+  input: InlineWorkflowDefinition
+): ValidatedWorkflowDefinition => {
+  const definition = serializeWorkflowDefinition(input);
+
+  // Parse the workflow to extract integration types
+  const parsedWorkflow = JSON.parse(definition);
+  const integrationTypes = new Set<string>();
+
+  if (parsedWorkflow.steps && Array.isArray(parsedWorkflow.steps)) {
+    parsedWorkflow.steps.forEach((step: WorkflowStep | null) => {
+      const integrationDetails = step?.integrationDetails;
+      if (integrationDetails?.type) {
+        integrationTypes.add(integrationDetails.type);
+      }
+
+      // For marketplace and runChildJob steps, inject permissive placeholder schemas so synth-time
+      // validation passes. The real schemas are injected at API registration time.
+      const needsPlaceholderSchemas = integrationDetails?.type === '/justworkflowit/runMarketplaceJob'
+        || integrationDetails?.type === '/justworkflowit/runChildJob';
+      if (needsPlaceholderSchemas && step?.name) {
+        const stepName = step.name;
+        if (!parsedWorkflow.definitions) {
+          parsedWorkflow.definitions = {};
+        }
+        // Only override with permissive placeholders when no definition is provided.
+        // When the workflow supplies its own input/output definitions (e.g. to describe
+        // the marketplace executor's output shape), preserve them so mock data matches.
+        if (!integrationDetails.inputDefinition) {
+          parsedWorkflow.definitions[`${stepName}Input`] = { type: 'object', additionalProperties: true };
+          integrationDetails.inputDefinition = { $ref: `#/definitions/${stepName}Input` };
+        }
+        if (!integrationDetails.outputDefinition) {
+          parsedWorkflow.definitions[`${stepName}Output`] = { type: 'object', additionalProperties: true };
+          integrationDetails.outputDefinition = { $ref: `#/definitions/${stepName}Output` };
+        }
+      }
+    });
+  }
+
+  // Create dummy step executors for validation purposes
+  const dummyExecutors = Array.from(integrationTypes).map((type) => ({
+    type,
+    execute: () => Promise.resolve({ status: 'success' as const, payload: {} }),
+  }));
+
+  // Use the modified definition (with marketplace placeholders) for engine validation
+  const definitionForValidation = JSON.stringify(parsedWorkflow);
+
+  // Generate fake workflow input if a workflowInput definition exists
+  let fakeWorkflowInputForTypeValidation = undefined;
+  if (parsedWorkflow.definitions?.workflowInput) {
+    const jsonSchemaFakerRefs: JSONSchemaFakerRefs = Object.entries(
+      parsedWorkflow.definitions
+    ).reduce(
+      (acc, [key, value]) => {
+        acc[`#/definitions/${key}`] = value as Schema;
+        return acc;
+      },
+      {} as Record<string, Schema>
+    );
+
+    // Configure json-schema-faker to always generate optional fields for thorough validation
+    // Note: requiredOnly must be explicitly reset because the engine's two-pass validation
+    // sets it to true globally during its second pass, which persists across definitions
+    JSONSchemaFaker.option({
+      alwaysFakeOptionals: true,
+      requiredOnly: false,
+    });
+
+    fakeWorkflowInputForTypeValidation = JSONSchemaFaker.generate(
+      parsedWorkflow.definitions.workflowInput as Schema,
+      jsonSchemaFakerRefs
+    ) as Record<string, unknown>;
+  }
+
+  // This will throw if the workflow definition is invalid; the engine itself isn't needed
+  // eslint-disable-next-line no-new
+  new JustWorkflowItEngine({
+    workflowDefinition: definitionForValidation,
+    stepExecutors: dummyExecutors,
+    workflowInput: fakeWorkflowInputForTypeValidation,
+  });
+
+  if (typeof parsedWorkflow.workflowName !== 'string' || !parsedWorkflow.workflowName) {
+    throw new Error('missing "workflowName"');
+  }
+
+  return { workflowName: parsedWorkflow.workflowName as string, definition };
+};
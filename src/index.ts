@@ -1 +1,9 @@
-export * from './constructs/justWorkflowItConstructs';
\ No newline at end of file
+export * from './constructs/justWorkflowItConstructs';
+export * from './constructs/workflowDefinitionBuilder';
+export * from './constructs/workflowDefinitionSource';
+export * from './constructs/justWorkflowItWorkflow';
+export * from './constructs/justWorkflowItEnvironment';
+export * from './constructs/justWorkflowItAuth';
+export type { InlineWorkflowDefinition } from './constructs/workflowDefinitionValidation';
+export { IntegrationPermissionCheck } from './constructs/integrationPermissions';
+export type { AwsIntegration } from './constructs/integrationPermissions';
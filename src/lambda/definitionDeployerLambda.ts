@@ -1,28 +1,18 @@
 import { CloudFormationCustomResourceEvent } from 'aws-lambda';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
-import { getApiClient, getSecretValueByName } from './justWorkflowItApiClient';
+import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { getApiClient, refreshAuthTokenValue } from './justWorkflowItApiClient';
+import { NotFoundError } from './justWorkflowItApiExceptions';
+import { putMetrics } from './embeddedMetrics';
 
 const s3 = new S3Client();
 
 const PLACEHOLDER_TOKEN = 'REPLACE_ME_WITH_JUST_WORKFLOW_IT_AUTH_TOKEN';
 
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
 const parseNumberEnv = (value: string | undefined, fallback: number): number => {
   const parsed = Number(value);
   return Number.isFinite(parsed) ? parsed : fallback;
 };
 
-const DEFAULT_REGISTER_ATTEMPTS = parseNumberEnv(
-  process.env.REGISTER_WORKFLOW_VERSION_MAX_ATTEMPTS,
-  3
-);
-
-const DEFAULT_REGISTER_BASE_DELAY_MS = parseNumberEnv(
-  process.env.REGISTER_WORKFLOW_VERSION_BASE_DELAY_MS,
-  1_000
-);
-
 async function streamToString(stream: any): Promise<string> {
   return new Promise((resolve, reject) => {
     const chunks: any[] = [];
@@ -32,154 +22,777 @@ async function streamToString(stream: any): Promise<string> {
   });
 }
 
-const shouldRetryRegister = (err: unknown): boolean => {
-  if (!err || typeof err !== 'object') {
-    return false;
+type WorkflowRemovalPolicy = 'RETAIN' | 'UNTAG_LIVE' | 'ARCHIVE';
+
+const DEFAULT_VERSION_TAG = '$LIVE';
+
+type VersionTagOptions = {
+  versionTag: string; // Tag moved to the deployed version
+  promoteFromTag?: string; // Promote the version carrying this tag instead of registering the definition
+};
+
+const versionTagOptions = (properties: Record<string, any>): VersionTagOptions => ({
+  versionTag: properties.VersionTag ?? DEFAULT_VERSION_TAG,
+  promoteFromTag: properties.PromoteFromTag,
+});
+
+type WorkflowNameMatching = 'EXACT' | 'CASE_INSENSITIVE';
+
+const WORKFLOW_NAME_MATCHING: WorkflowNameMatching =
+  process.env.WORKFLOW_NAME_MATCHING === 'CASE_INSENSITIVE' ? 'CASE_INSENSITIVE' : 'EXACT';
+
+/**
+ * The organization's workflows, listed once per invocation so deploying or removing many workflows
+ * doesn't page through them again for each one. Workflows created by the deployer are added.
+ */
+type WorkflowDirectory = { name: string; workflowId: string }[];
+
+async function listWorkflowDirectory(
+  api: ReturnType<typeof getApiClient>,
+  organizationId: string
+): Promise<WorkflowDirectory> {
+  const directory: WorkflowDirectory = [];
+  let nextToken: string | undefined;
+
+  do {
+    const workflowResponse = await api.listWorkflows({ organizationId, nextToken });
+    (workflowResponse.workflows ?? []).forEach((w: { name: string; workflowId: string }) =>
+      directory.push({ name: w.name, workflowId: w.workflowId })
+    );
+    nextToken = workflowResponse.nextToken;
+  } while (nextToken);
+
+  return directory;
+}
+
+/**
+ * The ID of the workflow named `workflowName`, matched exactly unless WORKFLOW_NAME_MATCHING is
+ * CASE_INSENSITIVE. Throws rather than guessing when several workflows match.
+ */
+function findWorkflowId(directory: WorkflowDirectory, workflowName: string): string | undefined {
+  const normalize = (name: string) => (WORKFLOW_NAME_MATCHING === 'CASE_INSENSITIVE' ? name.toUpperCase() : name);
+  const matches = directory.filter((w) => normalize(w.name) === normalize(workflowName));
+
+  if (matches.length > 1) {
+    const candidates = matches.map((w) => `"${w.name}" (${w.workflowId})`).join(', ');
+    throw new Error(`Workflow name "${workflowName}" matches ${matches.length} workflows: ${candidates}`);
   }
+  return matches[0]?.workflowId;
+}
+
+/**
+ * Calls `fn` for every item with at most `concurrency` calls in flight. After a failure no new
+ * items are started, calls already in flight are awaited, and the first error is thrown.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index]);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
 
-  const metadataStatus = (err as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode;
-  if (typeof metadataStatus === 'number') {
-    return metadataStatus >= 500;
+  const settled = await Promise.allSettled(
+    Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker)
+  );
+  const rejected = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (rejected) {
+    throw rejected.reason;
   }
 
-  const fallbackStatus = (err as { statusCode?: number }).statusCode;
-  if (typeof fallbackStatus === 'number') {
-    return fallbackStatus >= 500;
+  return results;
+}
+
+async function getTaggedVersionId(
+  api: ReturnType<typeof getApiClient>,
+  organizationId: string,
+  workflowId: string,
+  tag: string
+): Promise<string | undefined> {
+  try {
+    const tagged = await api.getTaggedWorkflowVersion({ organizationId, workflowId, tag });
+    return tagged.versionId;
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return undefined;
+    }
+    throw err;
   }
+}
 
-  const smithyFault = (err as { $fault?: string }).$fault;
-  return smithyFault === 'server';
+type WorkflowOutcome =
+  | 'created' // Workflow created and its first version tagged
+  | 'registered' // New version registered and tagged
+  | 'tagged' // Existing version tagged, by promotion or rollback
+  | 'skipped' // Version already carried the tag
+  | 'failed'; // Deployment failed, see error
+
+type DeployedWorkflow = {
+  workflowName: string;
+  workflowId: string;
+  versionId: string;
+  previousVersionId: string; // Tagged version before this deployment, empty if there was none
+  outcome: WorkflowOutcome;
+  error?: string; // Set when outcome is failed
+};
+
+/**
+ * FAIL_FAST stops at the first failing definition. CONTINUE attempts every definition and only fails
+ * the deployment if a critical workflow failed; every workflow is critical unless CRITICAL_WORKFLOWS
+ * lists some.
+ */
+type DeploymentFailurePolicy = {
+  continueOnError: boolean;
+  criticalWorkflows?: string[];
 };
 
-type RegisterWorkflowVersionInput = {
-  organizationId: string;
+const deploymentFailurePolicy = (): DeploymentFailurePolicy => ({
+  continueOnError: process.env.DEPLOYMENT_FAILURE_MODE === 'CONTINUE',
+  criticalWorkflows: process.env.CRITICAL_WORKFLOWS ? JSON.parse(process.env.CRITICAL_WORKFLOWS) : undefined,
+});
+
+const isCriticalWorkflow = ({ criticalWorkflows }: DeploymentFailurePolicy, workflowName: string) =>
+  !criticalWorkflows || criticalWorkflows.includes(workflowName);
+
+// Keeps error messages within CloudFormation's 4 KB response limit
+const truncate = (message: string, maxLength: number) =>
+  (message.length > maxLength ? `${message.slice(0, maxLength)}... (truncated)` : message);
+
+/**
+ * What the deployer last did to a workflow's version tag, kept next to the definitions so a rollback
+ * Update can put back the tagged version that was replaced instead of registering the old
+ * definition again. `liveVersionId` is the version carrying the tag, whichever tag that is.
+ *
+ * The replaced version is also returned as PreviousVersionId, but CloudFormation only sends a
+ * handler the old and new resource properties, never the data of an earlier response, so the
+ * state has to live outside the resource. It is deleted with the definitions bucket.
+ */
+type WorkflowState = {
   workflowId: string;
-  definition: string;
+  definitionKey: string;
+  liveVersionId: string;
+  previousDefinitionKey?: string;
+  previousLiveVersionId?: string;
+  owner?: string; // Custom resource that last deployed the workflow, see resourceOwner
 };
 
-async function registerWorkflowVersionWithRetry(
+/**
+ * Identifies a custom resource across its lifetime. A resource replaced because its construct ID
+ * or the deployment mode changed gets a new logical ID, so its Delete can tell that the workflows
+ * have since been deployed by the replacement.
+ */
+const resourceOwner = ({ StackId, LogicalResourceId }: CloudFormationCustomResourceEvent) =>
+  `${StackId}/${LogicalResourceId}`;
+
+const stateKeyFor = (workflowName: string, versionTag: string) =>
+  `state/${encodeURIComponent(workflowName)}/${encodeURIComponent(versionTag)}.json`;
+
+async function readWorkflowState(
+  bucket: string,
+  workflowName: string,
+  versionTag: string
+): Promise<WorkflowState | undefined> {
+  try {
+    const obj = await s3.send(
+      new GetObjectCommand({ Bucket: bucket, Key: stateKeyFor(workflowName, versionTag) })
+    );
+    return JSON.parse(await streamToString(obj.Body));
+  } catch (err) {
+    if ((err as { name?: string })?.name === 'NoSuchKey') {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+async function writeWorkflowState(
+  bucket: string,
+  workflowName: string,
+  versionTag: string,
+  state: WorkflowState
+): Promise<void> {
+  await s3.send(
+    new PutObjectCommand({
+      Bucket: bucket,
+      Key: stateKeyFor(workflowName, versionTag),
+      Body: JSON.stringify(state),
+      ContentType: 'application/json',
+    })
+  );
+}
+
+/**
+ * Moves the version tag back to the version it pointed at before the deployment that is being
+ * rolled back, or removes the tag if there was none.
+ */
+async function restorePreviousTaggedVersion(
   api: ReturnType<typeof getApiClient>,
-  payload: RegisterWorkflowVersionInput,
-  workflowName: string
-) {
-  const maxAttempts = Math.max(1, DEFAULT_REGISTER_ATTEMPTS);
-  const baseDelayMs = Math.max(0, DEFAULT_REGISTER_BASE_DELAY_MS);
+  organizationId: string,
+  bucket: string,
+  workflowName: string,
+  versionTag: string,
+  state: WorkflowState
+): Promise<DeployedWorkflow> {
+  const { workflowId, previousLiveVersionId } = state;
+
+  if (previousLiveVersionId) {
+    await api.setWorkflowVersionTag({
+      organizationId,
+      workflowId,
+      tag: versionTag,
+      versionId: previousLiveVersionId,
+    });
+    console.log(`↩️ Restored ${versionTag} of ${workflowName} to ${previousLiveVersionId}`);
+  } else {
+    await api.removeWorkflowVersionTag({ organizationId, workflowId, tag: versionTag });
+    console.log(`↩️ Removed ${versionTag} tag from ${workflowName}, it had no ${versionTag} version before`);
+  }
 
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+  await writeWorkflowState(bucket, workflowName, versionTag, {
+    workflowId,
+    definitionKey: state.previousDefinitionKey ?? '',
+    liveVersionId: previousLiveVersionId ?? '',
+    previousDefinitionKey: state.definitionKey,
+    previousLiveVersionId: state.liveVersionId,
+    owner: state.owner,
+  });
+
+  return {
+    workflowName,
+    workflowId,
+    versionId: previousLiveVersionId ?? '',
+    previousVersionId: state.liveVersionId,
+    outcome: 'tagged',
+  };
+}
+
+async function deployWorkflow(
+  api: ReturnType<typeof getApiClient>,
+  organizationId: string,
+  bucket: string,
+  directory: WorkflowDirectory,
+  workflowName: string,
+  key: string,
+  { versionTag, promoteFromTag }: VersionTagOptions,
+  previousKey: string | undefined, // Definition key of the properties being replaced, set on Update
+  owner: string | undefined // Deploying custom resource, undefined to keep the recorded one
+): Promise<DeployedWorkflow> {
+  try {
+    // A rollback Update swaps the properties back, so the definitions are the reverse of the
+    // last deployment recorded for this workflow. Checked before the definition is read: the
+    // rollback may run after the definitions upload pruned the one being restored.
+    const state = await readWorkflowState(bucket, workflowName, versionTag);
+    if (previousKey && previousKey !== key && state?.definitionKey === previousKey && state.previousDefinitionKey === key) {
+      return await restorePreviousTaggedVersion(api, organizationId, bucket, workflowName, versionTag, state);
+    }
+
+    const obj = await s3.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+    const definitionStr = await streamToString(obj.Body);
+    const definitionJson = JSON.parse(definitionStr);
+
+    if (definitionJson?.workflowName !== workflowName) {
+      throw new Error(`File ${key} — "workflowName" is ${JSON.stringify(definitionJson?.workflowName)}, expected "${workflowName}"`);
+    }
+
+    const existingWorkflowId = findWorkflowId(directory, workflowName);
+
+    let workflowId: string;
+
+    if (promoteFromTag && !existingWorkflowId) {
+      throw new Error(`Cannot promote ${workflowName} from ${promoteFromTag}: workflow not found`);
+    }
+
+    // If workflow doesn't exist, create it first
+    if (!existingWorkflowId) {
+      console.log(`ℹ️ Workflow ${workflowName} not found. Creating it...`);
+      const createResponse = await api.registerWorkflow({
+        organizationId,
+        name: workflowName,
+      });
+      workflowId = createResponse.workflowId;
+      directory.push({ name: workflowName, workflowId });
+      console.log(`✅ Created workflow ${workflowName} with ID ${workflowId}`);
+    } else {
+      workflowId = existingWorkflowId;
+    }
+
+    let versionId: string;
+
+    if (promoteFromTag) {
+      // Promotion reuses the version registered by an earlier stage instead of registering the definition
+      const promotedVersionId = await getTaggedVersionId(api, organizationId, workflowId, promoteFromTag);
+      if (!promotedVersionId) {
+        throw new Error(`Cannot promote ${workflowName}: no version is tagged ${promoteFromTag}`);
+      }
+      versionId = promotedVersionId;
+    } else {
+      const registered = await api.registerWorkflowVersion({
+        organizationId,
+        workflowId,
+        definition: definitionStr,
+      });
+      versionId = registered.versionId;
+    }
+
+    const taggedVersionId = await getTaggedVersionId(api, organizationId, workflowId, versionTag);
+    if (!taggedVersionId) {
+      console.log(`ℹ️ No ${versionTag} version found yet for ${workflowName}`);
+    }
+
+    if (taggedVersionId === versionId) {
+      console.log(`🟡 Skipped ${workflowName} — already tagged as ${versionTag}`);
+    } else {
+      await api.setWorkflowVersionTag({
+        organizationId,
+        workflowId,
+        tag: versionTag,
+        versionId,
+      });
+      console.log(
+        promoteFromTag
+          ? `✅ Promoted ${workflowName} version ${versionId} from ${promoteFromTag} to ${versionTag}`
+          : `✅ Registered and tagged new ${versionTag} version for: ${workflowName}`
+      );
+    }
+
+    // Redeploying the same definition keeps the version to restore from the last real change
+    const unchanged = state?.definitionKey === key && state.workflowId === workflowId;
+    await writeWorkflowState(bucket, workflowName, versionTag, {
+      workflowId,
+      definitionKey: key,
+      liveVersionId: versionId,
+      previousDefinitionKey: unchanged ? state.previousDefinitionKey : state?.definitionKey,
+      previousLiveVersionId: unchanged ? state.previousLiveVersionId : taggedVersionId,
+      owner: owner ?? state?.owner,
+    });
+
+    let outcome: WorkflowOutcome = 'skipped';
+    if (taggedVersionId !== versionId) {
+      outcome = promoteFromTag ? 'tagged' : 'registered';
+    }
+    return {
+      workflowName,
+      workflowId,
+      versionId,
+      previousVersionId: taggedVersionId ?? '',
+      outcome: existingWorkflowId ? outcome : 'created',
+    };
+  } catch (err) {
+    console.error(`❌ Error processing ${key}`, err);
+    // Truncate error message to prevent CloudFormation "Response object is too long" failures
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(truncate(msg, 1000));
+  }
+}
+
+/**
+ * Applies the removal policy to a workflow that was deleted from the stack or dropped from the
+ * definition list. UNTAG_LIVE removes the version tag it was deployed with ($LIVE by default) so
+ * it can no longer be started by tag, and ARCHIVE archives the whole workflow. RETAIN workflows are
+ * left untouched by removeWorkflows and never get here.
+ */
+async function removeWorkflow(
+  api: ReturnType<typeof getApiClient>,
+  organizationId: string,
+  directory: WorkflowDirectory,
+  workflowName: string,
+  removalPolicy: Exclude<WorkflowRemovalPolicy, 'RETAIN'>,
+  versionTag: string
+): Promise<void> {
+  const workflowId = findWorkflowId(directory, workflowName);
+  if (!workflowId) {
+    console.log(`ℹ️ Workflow ${workflowName} not found. Nothing to remove.`);
+    return;
+  }
+
+  if (removalPolicy === 'UNTAG_LIVE') {
     try {
-      return await api.registerWorkflowVersion(payload);
+      await api.removeWorkflowVersionTag({
+        organizationId,
+        workflowId,
+        tag: versionTag,
+      });
+      console.log(`✅ Removed ${versionTag} tag from ${workflowName}`);
     } catch (err) {
-      if (attempt >= maxAttempts || !shouldRetryRegister(err)) {
+      if (!(err instanceof NotFoundError)) {
         throw err;
       }
-
-      const delay = baseDelayMs * 2 ** (attempt - 1);
-      console.warn(
-        `⚠️ registerWorkflowVersion attempt ${attempt} of ${maxAttempts} failed for ${workflowName}. Retrying in ${delay}ms...`,
-        err
-      );
-      await sleep(delay);
+      console.log(`ℹ️ No ${versionTag} version found for ${workflowName}`);
     }
+    return;
   }
 
-  throw new Error('registerWorkflowVersionWithRetry exhausted attempts unexpectedly');
+  await api.archiveWorkflow({ organizationId, workflowId });
+  console.log(`✅ Archived ${workflowName}`);
 }
 
-async function deployWorkflows(
+/**
+ * Applies the removal policy to workflows the custom resource `owner` no longer deploys. Workflows
+ * another resource has deployed since are skipped: when a resource is replaced, CloudFormation
+ * deletes the old one after its replacement has deployed the same workflows.
+ */
+async function removeWorkflows(
   organizationId: string,
   bucket: string,
-  keys: string[]
+  workflowNames: string[],
+  removalPolicy: WorkflowRemovalPolicy,
+  versionTag: string,
+  concurrency: number,
+  owner: string
 ): Promise<void> {
+  if (removalPolicy === 'RETAIN') {
+    workflowNames.forEach((workflowName) => console.log(`ℹ️ Retaining ${workflowName} (removal policy RETAIN)`));
+    return;
+  }
+
   const api = getApiClient();
+  const directory = await listWorkflowDirectory(api, organizationId);
 
-  for (const key of keys) {
-    try {
-      const obj = await s3.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
-      const definitionStr = await streamToString(obj.Body);
-      const definitionJson = JSON.parse(definitionStr);
+  await mapWithConcurrency(workflowNames, concurrency, async (workflowName) => {
+    const state = await readWorkflowState(bucket, workflowName, versionTag);
+    if (state?.owner && state.owner !== owner) {
+      console.log(`ℹ️ Not removing ${workflowName}: it has since been deployed by ${state.owner}`);
+      return;
+    }
+    await removeWorkflow(api, organizationId, directory, workflowName, removalPolicy, versionTag);
+  });
+}
 
-      const workflowName = definitionJson?.workflowName;
-      if (!workflowName) {
-        throw new Error(`File ${key} — missing "workflowName"`);
-      }
+/**
+ * Deploys every definition with at most `concurrency` workflows in flight, listing the
+ * organization's workflows once up front. With continueOnError, a failing definition is recorded
+ * as failed and the others are still deployed.
+ */
+async function deployWorkflows(
+  organizationId: string,
+  bucket: string,
+  definitionKeys: Record<string, string>,
+  tagOptions: VersionTagOptions,
+  concurrency: number,
+  continueOnError: boolean,
+  previousDefinitionKeys: Record<string, string>,
+  owner: string | undefined
+): Promise<DeployedWorkflow[]> {
+  const api = getApiClient();
+  const directory = await listWorkflowDirectory(api, organizationId);
 
-      const workflowResponse = await api.listWorkflows({ organizationId });
-      const matchingWorkflow = workflowResponse.workflows.find(
-        (w) => w.name.toUpperCase() === workflowName.toUpperCase()
+  return mapWithConcurrency(Object.entries(definitionKeys), concurrency, async ([workflowName, key]) => {
+    try {
+      return await deployWorkflow(
+        api,
+        organizationId,
+        bucket,
+        directory,
+        workflowName,
+        key,
+        tagOptions,
+        previousDefinitionKeys[workflowName],
+        owner
       );
+    } catch (err) {
+      if (!continueOnError) {
+        throw err;
+      }
+      return {
+        workflowName,
+        workflowId: '',
+        versionId: '',
+        previousVersionId: '',
+        outcome: 'failed',
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  });
+}
 
-      let workflowId: string;
+// Failed workflows were only recorded, not thrown, with continueOnError
+const throwOnCriticalFailures = (deployed: DeployedWorkflow[], failurePolicy: DeploymentFailurePolicy): void => {
+  const criticalFailures = deployed.filter(
+    ({ workflowName, outcome }) => outcome === 'failed' && isCriticalWorkflow(failurePolicy, workflowName)
+  );
+  if (criticalFailures.length > 0) {
+    throw new Error(truncate(
+      `Deployment failed for ${criticalFailures.map(({ workflowName, error }) => `${workflowName}: ${error}`).join('; ')}`,
+      1000
+    ));
+  }
+};
 
-      // If workflow doesn't exist, create it first
-      if (!matchingWorkflow) {
-        console.log(`ℹ️ Workflow ${workflowName} not found. Creating it...`);
-        const createResponse = await api.registerWorkflow({
-          organizationId,
-          name: workflowName,
-        });
-        workflowId = createResponse.workflowId;
-        console.log(`✅ Created workflow ${workflowName} with ID ${workflowId}`);
-      } else {
-        workflowId = matchingWorkflow.workflowId;
+/**
+ * Workflow names by outcome, plus the error of each failed workflow. Returned as the `Summary`
+ * attribute (see summaryAttribute), so errors are cut short to keep the response small.
+ */
+type DeploymentSummary = {
+  outcomes: Partial<Record<WorkflowOutcome, string[]>>;
+  errors: Record<string, string>;
+};
+
+const summarizeDeployment = (deployed: DeployedWorkflow[]): DeploymentSummary => {
+  deployed.forEach(({ workflowName, outcome, versionId, previousVersionId, error }) =>
+    console.log(
+      outcome === 'failed'
+        ? `📋 ${workflowName}: failed — ${error}`
+        : `📋 ${workflowName}: ${outcome} (version ${versionId || '-'}, previous ${previousVersionId || '-'})`
+    )
+  );
+
+  return deployed.reduce(
+    (summary, { workflowName, outcome, error }) => {
+      summary.outcomes[outcome] = [...(summary.outcomes[outcome] ?? []), workflowName];
+      if (error) {
+        summary.errors[workflowName] = truncate(error, 200);
       }
+      return summary;
+    },
+    { outcomes: {}, errors: {} } as DeploymentSummary
+  );
+};
 
-      const registered = await registerWorkflowVersionWithRetry(
-        api,
-        {
-          organizationId,
-          workflowId,
-          definition: definitionStr,
-        },
-        workflowName
-      );
+// Outcome counts, e.g. "2 registered, 1 skipped"
+const describeOutcomes = ({ outcomes }: DeploymentSummary): string =>
+  Object.entries(outcomes).map(([outcome, workflowNames]) => `${workflowNames!.length} ${outcome}`).join(', ');
 
-      let live: { versionId: string } | null = null;
-      try {
-        live = await api.getTaggedWorkflowVersion({
-          organizationId,
-          workflowId,
-          tag: '$LIVE',
-        });
-      } catch (err: any) {
-        // Check for NotFoundError - after deserializeSmithyError, the error has errorType property
-        if (err?.errorType === 'NotFoundError' || err?.message?.includes('No version tagged') || err?.message?.includes('No version found')) {
-          console.log(`ℹ️ No $LIVE version found yet for ${workflowName}`);
-        } else {
-          throw err;
-        }
-      }
+const MAX_SUMMARY_LENGTH = 1500;
 
-      if (live?.versionId === registered.versionId) {
-        console.log(`🟡 Skipped ${workflowName} — already tagged as $LIVE`);
-        continue;
-      }
+// Leaves room in CloudFormation's 4 KB response for the request fields the provider adds to the data
+const MAX_RESPONSE_DATA_LENGTH = 3072;
 
-      await api.setWorkflowVersionTag({
+// Length of a JSON attribute once it is escaped into the response
+const attributeLength = (value: unknown): number => JSON.stringify(JSON.stringify(value)).length - 2;
+
+/**
+ * The `Summary` attribute: the summary as JSON, or once that no longer fits in maxLength, the
+ * number of workflows per outcome and as many errors as fit, flagged `truncated`. The per-workflow
+ * lines logged by summarizeDeployment are always complete.
+ */
+const summaryAttribute = (summary: DeploymentSummary, maxLength = MAX_SUMMARY_LENGTH): string => {
+  if (attributeLength(summary) <= maxLength) {
+    return JSON.stringify(summary);
+  }
+
+  const counts = Object.fromEntries(
+    Object.entries(summary.outcomes).map(([outcome, workflowNames]) => [outcome, workflowNames!.length])
+  );
+  const errors: Record<string, string> = {};
+  for (const [workflowName, error] of Object.entries(summary.errors)) {
+    if (attributeLength({ counts, errors: { ...errors, [workflowName]: error }, truncated: true }) > maxLength) {
+      break;
+    }
+    errors[workflowName] = error;
+  }
+  return JSON.stringify({ counts, errors, truncated: true });
+};
+
+/**
+ * The `Workflows.<name>.WorkflowId` and `Workflows.<name>.VersionId` attributes of every workflow in
+ * the batch, empty when it wasn't deployed, because CloudFormation fails any Fn::GetAtt on a missing
+ * attribute.
+ */
+const workflowAttributes = (workflowNames: string[], deployed: DeployedWorkflow[]): Record<string, string> =>
+  Object.fromEntries(workflowNames.flatMap((workflowName) => {
+    const workflow = deployed.find((candidate) => candidate.workflowName === workflowName);
+    return [
+      [`Workflows.${workflowName}.WorkflowId`, workflow?.workflowId ?? ''],
+      [`Workflows.${workflowName}.VersionId`, workflow?.versionId ?? ''],
+    ];
+  }));
+
+/**
+ * Data of the batch custom resource: the given fields, the workflow attributes and the summary in
+ * the room left. Throws when the workflow attributes alone don't fit in the response.
+ */
+const batchResponseData = (
+  fields: Record<string, string>,
+  workflowNames: string[],
+  deployed: DeployedWorkflow[],
+  summary: DeploymentSummary
+): Record<string, string> => {
+  const data = { ...fields, ...workflowAttributes(workflowNames, deployed) };
+  const room = MAX_RESPONSE_DATA_LENGTH - JSON.stringify({ ...data, Summary: '' }).length;
+  const withSummary = { ...data, Summary: summaryAttribute(summary, Math.min(MAX_SUMMARY_LENGTH, room)) };
+  if (JSON.stringify(withSummary).length > MAX_RESPONSE_DATA_LENGTH) {
+    throw new Error(
+      `The IDs of ${workflowNames.length} workflows don't fit in CloudFormation's 4 KB custom resource response. `
+      + 'Deploy them with deploymentMode PER_WORKFLOW, or split them across JustWorkflowItConstructs.'
+    );
+  }
+  return withSummary;
+};
+
+/**
+ * Handles the custom resource of a single JustWorkflowItWorkflow construct. Every response carries
+ * the WorkflowId, VersionId, PreviousVersionId, Outcome and WorkflowName attributes, empty when
+ * nothing was deployed, because CloudFormation fails any Fn::GetAtt on a missing attribute.
+ */
+async function handleWorkflowEvent(
+  event: CloudFormationCustomResourceEvent,
+  organizationId: string,
+  bucket: string,
+  ignoreFailures: boolean,
+  failurePolicy: DeploymentFailurePolicy,
+  placeholderTokenDetected: boolean
+) {
+  const { RequestType, ResourceProperties } = event;
+  const workflowName: string = ResourceProperties.WorkflowName;
+  const physicalResourceId = `JustWorkflowItWorkflow:${workflowName}`;
+  const emptyAttributes = {
+    WorkflowName: workflowName,
+    WorkflowId: '',
+    VersionId: '',
+    PreviousVersionId: '',
+    Outcome: '',
+  };
+  const tagOptions = versionTagOptions(ResourceProperties);
+
+  if (placeholderTokenDetected) {
+    return {
+      PhysicalResourceId: physicalResourceId,
+      Data: { ...emptyAttributes, Outcome: 'skipped', PlaceholderTokenDetected: 'true' },
+    };
+  }
+
+  try {
+    if (RequestType === 'Delete') {
+      console.log(`Delete event received for ${workflowName}.`);
+      await removeWorkflows(
         organizationId,
-        workflowId,
-        tag: '$LIVE',
-        versionId: registered.versionId,
-      });
+        bucket,
+        [workflowName],
+        ResourceProperties.RemovalPolicy ?? 'RETAIN',
+        tagOptions.versionTag,
+        1,
+        resourceOwner(event)
+      );
+      return { PhysicalResourceId: physicalResourceId, Data: emptyAttributes };
+    }
 
-      console.log(`✅ Registered and tagged new $LIVE version for: ${workflowName}`);
-    } catch (err) {
-      console.error(`❌ Error processing ${key}`, err);
-      // Truncate error message to prevent CloudFormation "Response object is too long" failures
-      const msg = err instanceof Error ? err.message : String(err);
-      throw new Error(msg.length > 1000 ? `${msg.slice(0, 1000)}... (truncated)` : msg);
+    const api = getApiClient();
+    const deployed = await deployWorkflow(
+      api,
+      organizationId,
+      bucket,
+      await listWorkflowDirectory(api, organizationId),
+      workflowName,
+      ResourceProperties.DefinitionKey,
+      tagOptions,
+      RequestType === 'Update' ? event.OldResourceProperties.DefinitionKey : undefined,
+      resourceOwner(event)
+    );
+    return {
+      PhysicalResourceId: physicalResourceId,
+      Data: {
+        WorkflowName: deployed.workflowName,
+        WorkflowId: deployed.workflowId,
+        VersionId: deployed.versionId,
+        PreviousVersionId: deployed.previousVersionId,
+        Outcome: deployed.outcome,
+      },
+    };
+  } catch (error) {
+    const continueOnError = failurePolicy.continueOnError && !isCriticalWorkflow(failurePolicy, workflowName);
+    if (ignoreFailures || continueOnError) {
+      console.warn(
+        ignoreFailures
+          ? `⚠️ Deployment of ${workflowName} failed, but IGNORE_FAILURES is enabled`
+          : `⚠️ Deployment of ${workflowName} failed, but it isn't a critical workflow`
+      );
+      console.warn('Error details:', error);
+      return {
+        PhysicalResourceId: physicalResourceId,
+        Data: {
+          ...emptyAttributes,
+          Outcome: RequestType === 'Delete' ? '' : 'failed',
+          FailureIgnored: 'true',
+          Error: error instanceof Error ? error.message : String(error),
+        },
+      };
     }
+    throw error;
+  }
+}
+
+// Resource properties of the batch custom resource, set by JustWorkflowItConstructs
+type BatchTriggerProperties = {
+  DefinitionKeys?: Record<string, string>; // Definition key in the bucket, by workflow name
+  DeploymentRevision?: string;
+  RemovalPolicy?: WorkflowRemovalPolicy;
+  VersionTag?: string;
+  PromoteFromTag?: string;
+};
+
+/**
+ * Sent by the EventBridge rule of redeployOnAuthSecretUpdate when the auth secret is updated. It
+ * carries the batch trigger's resource properties, so the current manifest is deployed.
+ */
+type RedeployEvent = {
+  RequestType: 'Redeploy';
+  ResourceProperties: BatchTriggerProperties;
+};
+
+const isRedeployEvent = (event: CloudFormationCustomResourceEvent | RedeployEvent): event is RedeployEvent =>
+  event.RequestType === 'Redeploy';
+
+/**
+ * Deploys the manifest outside CloudFormation. Nothing is removed, and the stack's attributes
+ * catch up on its next deployment.
+ */
+async function handleRedeployEvent(
+  event: RedeployEvent,
+  organizationId: string,
+  bucket: string,
+  concurrency: number,
+  failurePolicy: DeploymentFailurePolicy,
+  placeholderTokenDetected: boolean
+) {
+  if (placeholderTokenDetected) {
+    return { Message: 'Skipped Redeploy - placeholder token detected' };
   }
+
+  const deployed = await deployWorkflows(
+    organizationId,
+    bucket,
+    event.ResourceProperties.DefinitionKeys ?? {},
+    versionTagOptions(event.ResourceProperties),
+    concurrency,
+    failurePolicy.continueOnError,
+    {},
+    undefined
+  );
+  const summary = summarizeDeployment(deployed);
+
+  throwOnCriticalFailures(deployed, failurePolicy);
+
+  return { Message: `Ran Redeploy successfully: ${describeOutcomes(summary)}`, Summary: summary };
 }
 
-export const handler = async (event: CloudFormationCustomResourceEvent) => {
+export const handler = async (event: CloudFormationCustomResourceEvent | RedeployEvent) => {
   console.log('Custom Resource Event:', JSON.stringify(event, null, 2));
 
-  const { RequestType } = event;
+  const { RequestType, ResourceProperties } = event;
   const bucket = process.env.DEFINITION_BUCKET;
   const organizationId = process.env.ORGANIZATION_ID;
-  const authSecretName = process.env.AUTH_SECRET_NAME;
-  const keys: string[] = JSON.parse(process.env.DEFINITION_KEYS_JSON || '[]');
+  const authTokenSourceId = process.env.AUTH_TOKEN_SOURCE_ID;
+  // Content-hash S3 keys by workflow name
+  const definitionKeys: Record<string, string> = ResourceProperties.DefinitionKeys ?? {};
+  const workflowNames = Object.keys(definitionKeys);
+  const removalPolicy: WorkflowRemovalPolicy = ResourceProperties.RemovalPolicy ?? 'RETAIN';
+  const tagOptions = versionTagOptions(ResourceProperties);
   const ignoreFailures = process.env.IGNORE_FAILURES === 'true';
+  const concurrency = Math.max(1, Math.floor(parseNumberEnv(process.env.DEPLOYMENT_CONCURRENCY, 4)));
+  const failurePolicy = deploymentFailurePolicy();
 
   if (!bucket) {
     throw new Error('Missing S3 bucket from environment variables');
@@ -189,56 +802,150 @@ export const handler = async (event: CloudFormationCustomResourceEvent) => {
     throw new Error('Missing organization ID from environment variables');
   }
 
-  if (!authSecretName) {
-    throw new Error('Missing auth secret name from environment variables');
+  if (!authTokenSourceId) {
+    throw new Error('Missing auth token source from environment variables');
   }
 
-  // Check if the API token is still the placeholder value
-  const authToken = await getSecretValueByName(authSecretName);
+  // Check if the API token is still the placeholder value. A warm container may have cached the
+  // placeholder before the secret was updated, so the token is always read fresh here.
+  const authToken = await refreshAuthTokenValue();
+  const placeholderTokenDetected = authToken === PLACEHOLDER_TOKEN;
+  const placeholderTokenBehavior = process.env.PLACEHOLDER_TOKEN_BEHAVIOR ?? 'SKIP';
+
+  // 0 for a real token clears the alarm, which otherwise stays in ALARM between deployments
+  if (placeholderTokenBehavior === 'WARN_WITH_ALARM') {
+    putMetrics({ PlaceholderTokenDetected: { value: placeholderTokenDetected ? 1 : 0, unit: 'Count' } }, { RequestType });
+  }
 
-  if (authToken === PLACEHOLDER_TOKEN) {
+  if (placeholderTokenDetected) {
+    // Deletes still go through, so a misconfigured stack can be torn down
+    if (placeholderTokenBehavior === 'FAIL' && (RequestType === 'Create' || RequestType === 'Update')) {
+      throw new Error(
+        'The JustWorkflowIt auth secret still holds the placeholder token, so no workflows can be deployed. '
+        + 'Store a real JustWorkflowIt API token in it and deploy again (placeholderTokenBehavior is FAIL).'
+      );
+    }
     console.log('⚠️ API token is still the placeholder value. Skipping workflow deployment.');
-    console.log('ℹ️ To deploy workflows, update the secret with a real JustWorkflowIt API token and trigger a stack update.');
+    console.log(process.env.REDEPLOY_ON_AUTH_SECRET_UPDATE === 'true'
+      ? 'ℹ️ To deploy workflows, update the secret with a real JustWorkflowIt API token. The definitions are redeployed when it is updated.'
+      : 'ℹ️ To deploy workflows, update the secret with a real JustWorkflowIt API token and redeploy with a changed definition or deploymentRevision.');
+  }
 
+  if (isRedeployEvent(event)) {
+    return handleRedeployEvent(event, organizationId, bucket, concurrency, failurePolicy, placeholderTokenDetected);
+  }
+
+  // Custom resources of individual JustWorkflowItWorkflow constructs carry a single workflow
+  if (event.ResourceProperties.WorkflowName) {
+    return handleWorkflowEvent(event, organizationId, bucket, ignoreFailures, failurePolicy, placeholderTokenDetected);
+  }
+
+  // Deleted resources have no attributes to resolve
+  const attributeWorkflowNames = RequestType === 'Delete' ? [] : workflowNames;
+
+  if (placeholderTokenDetected) {
     return {
       PhysicalResourceId: 'JustWorkflowItIntegrationTrigger',
-      Data: {
-        Message: `Skipped ${RequestType} - placeholder token detected`,
-        PlaceholderTokenDetected: 'true',
-      },
+      Data: batchResponseData(
+        { Message: `Skipped ${RequestType} - placeholder token detected`, PlaceholderTokenDetected: 'true' },
+        attributeWorkflowNames,
+        [],
+        summarizeDeployment([])
+      ),
     };
   }
 
-  if (RequestType === 'Create' || RequestType === 'Update') {
-    if (keys.length === 0) {
-      console.log('No definitions to deploy');
-    } else {
-      try {
-        await deployWorkflows(organizationId, bucket, keys);
-      } catch (error) {
-        if (ignoreFailures) {
-          console.warn('⚠️ Workflow deployment failed, but IGNORE_FAILURES is enabled');
-          console.warn('Error details:', error);
-          return {
-            PhysicalResourceId: 'JustWorkflowItIntegrationTrigger',
-            Data: {
-              Message: `${RequestType} completed with ignored failures`,
-              FailureIgnored: 'true',
-              Error: error instanceof Error ? error.message : String(error),
-            },
-          };
-        }
-        throw error;
+  // Fails before deploying anything when even empty IDs don't fit in the response
+  batchResponseData({}, attributeWorkflowNames, [], summarizeDeployment([]));
+
+  let deployed: DeployedWorkflow[] = [];
+  let summary = summarizeDeployment(deployed);
+
+  const previousDefinitionKeys: Record<string, string> = event.RequestType === 'Update'
+    ? event.OldResourceProperties.DefinitionKeys ?? {}
+    : {};
+  // Removed workflows were tagged with the previous properties' tag
+  const previousVersionTag = event.RequestType === 'Update'
+    ? versionTagOptions(event.OldResourceProperties).versionTag
+    : tagOptions.versionTag;
+  // Workflows dropped from the definition list since the last deployment
+  const removedWorkflowNames = Object.keys(previousDefinitionKeys).filter((name) => !(name in definitionKeys));
+
+  try {
+    if (RequestType === 'Create' || RequestType === 'Update') {
+      if (workflowNames.length === 0) {
+        console.log('No definitions to deploy');
+      } else {
+        deployed = await deployWorkflows(
+          organizationId,
+          bucket,
+          definitionKeys,
+          tagOptions,
+          concurrency,
+          failurePolicy.continueOnError,
+          previousDefinitionKeys,
+          resourceOwner(event)
+        );
+        summary = summarizeDeployment(deployed);
+
+        // Checked before removals so a failed deployment rolls back with nothing removed
+        throwOnCriticalFailures(deployed, failurePolicy);
       }
+
+      if (removedWorkflowNames.length > 0) {
+        console.log(`Workflows removed from the stack: ${removedWorkflowNames.join(', ')}`);
+        await removeWorkflows(
+          organizationId,
+          bucket,
+          removedWorkflowNames,
+          removalPolicy,
+          previousVersionTag,
+          concurrency,
+          resourceOwner(event)
+        );
+      }
+    } else if (RequestType === 'Delete') {
+      console.log('Delete event received.');
+      await removeWorkflows(
+        organizationId,
+        bucket,
+        workflowNames,
+        removalPolicy,
+        tagOptions.versionTag,
+        concurrency,
+        resourceOwner(event)
+      );
     }
-  } else if (RequestType === 'Delete') {
-    console.log('Delete event received. No cleanup required.');
+  } catch (error) {
+    if (ignoreFailures) {
+      console.warn('⚠️ Workflow deployment failed, but IGNORE_FAILURES is enabled');
+      console.warn('Error details:', error);
+      return {
+        PhysicalResourceId: 'JustWorkflowItIntegrationTrigger',
+        Data: batchResponseData(
+          {
+            Message: `${RequestType} completed with ignored failures`,
+            FailureIgnored: 'true',
+            Error: truncate(error instanceof Error ? error.message : String(error), 1000),
+          },
+          attributeWorkflowNames,
+          deployed,
+          summary
+        ),
+      };
+    }
+    throw error;
   }
 
+  const outcomes = describeOutcomes(summary);
+
   return {
     PhysicalResourceId: 'JustWorkflowItIntegrationTrigger',
-    Data: {
-      Message: `Ran ${RequestType} successfully`,
-    },
+    Data: batchResponseData(
+      { Message: outcomes ? `Ran ${RequestType} successfully: ${outcomes}` : `Ran ${RequestType} successfully` },
+      attributeWorkflowNames,
+      deployed,
+      summary
+    ),
   };
 };
@@ -0,0 +1,29 @@
+export const METRICS_NAMESPACE = 'JustWorkflowIt/DefinitionDeployer';
+
+type MetricUnit = 'Count' | 'Milliseconds';
+
+/**
+ * Publishes metrics by logging them in CloudWatch Embedded Metric Format, so no PutMetricData call
+ * or permission is needed. Every metric gets the deployer's FunctionName dimension, which lets one
+ * alarm watch a single construct instance. `properties` are logged alongside but aren't dimensions.
+ */
+export const putMetrics = (
+  metrics: Record<string, { value: number; unit: MetricUnit }>,
+  properties: Record<string, string> = {}
+): void => {
+  const functionName = process.env.AWS_LAMBDA_FUNCTION_NAME ?? 'unknown';
+
+  console.log(JSON.stringify({
+    _aws: {
+      Timestamp: Date.now(),
+      CloudWatchMetrics: [{
+        Namespace: METRICS_NAMESPACE,
+        Dimensions: [['FunctionName']],
+        Metrics: Object.entries(metrics).map(([name, { unit }]) => ({ Name: name, Unit: unit })),
+      }],
+    },
+    FunctionName: functionName,
+    ...properties,
+    ...Object.fromEntries(Object.entries(metrics).map(([name, { value }]) => [name, value])),
+  }));
+};
@@ -1,13 +1,22 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { JustWorkflowIt } from '@justworkflowit/api-client';
 import { AssertiveClient, HttpRequest, Identity, IdentityProvider, IdentityProviderConfig } from '@smithy/types';
-import { deserializeSmithyError } from './justWorkflowItApiExceptions';
+import {
+    deserializeSmithyError,
+    JustWorkflowItApiError,
+    ThrottlingError,
+    UnauthorizedError,
+    ValidationError,
+} from './justWorkflowItApiExceptions';
 import { SecretsManagerClient, GetSecretValueCommand } from "@aws-sdk/client-secrets-manager";
+import { SSMClient, GetParameterCommand } from "@aws-sdk/client-ssm";
+import { putMetrics } from "./embeddedMetrics";
 
 const endpoint = process.env.API_BASE_URL;
 
-// Helper to cache the client (no repeated instantiation)
+// Helpers to cache the clients (no repeated instantiation)
 let secretsManager: SecretsManagerClient | undefined;
+let ssm: SSMClient | undefined;
 
 const getSecretsManager = () => {
     if (!secretsManager) {
@@ -16,6 +25,13 @@ const getSecretsManager = () => {
     return secretsManager;
 };
 
+const getSsm = () => {
+    if (!ssm) {
+        ssm = new SSMClient({});
+    }
+    return ssm;
+};
+
 /**
  * Fetch a secret value by its name from AWS Secrets Manager.
  */
@@ -26,13 +42,187 @@ export const getSecretValueByName = async (secretName: string): Promise<string |
     return resp.SecretString;
 };
 
-// Swap getAccessToken to use getSecretValueByName
+/**
+ * Fetch a (SecureString) parameter value by its name from AWS Systems Manager Parameter Store.
+ */
+export const getParameterValueByName = async (parameterName: string): Promise<string | undefined> => {
+    const client = getSsm();
+    const cmd = new GetParameterCommand({ Name: parameterName, WithDecryption: true });
+    const resp = await client.send(cmd);
+    return resp.Parameter?.Value;
+};
+
+type TokenFetchReason = "cold" | "expired" | "unauthorized" | "refresh";
+
+const fetchAuthTokenValue = async (sourceType: string, sourceId: string, reason: TokenFetchReason) => {
+    const startedAt = Date.now();
+    let failed = false;
+
+    try {
+        switch (sourceType) {
+            case "secretsmanager":
+                return await getSecretValueByName(sourceId);
+            case "ssm":
+                return await getParameterValueByName(sourceId);
+            default:
+                throw new Error(`Unsupported AUTH_TOKEN_SOURCE_TYPE: ${sourceType}`);
+        }
+    } catch (err) {
+        failed = true;
+        throw err;
+    } finally {
+        // Lets large deployments watch for Secrets Manager/SSM throttling and cost
+        putMetrics(
+            {
+                AuthTokenFetches: { value: 1, unit: "Count" },
+                AuthTokenFetchErrors: { value: failed ? 1 : 0, unit: "Count" },
+                AuthTokenFetchLatency: { value: Date.now() - startedAt, unit: "Milliseconds" },
+            },
+            { AuthTokenSourceType: sourceType, Reason: reason }
+        );
+    }
+};
+
+// 0 disables caching, so every call reads the token from its source. Unset or invalid values
+// fall back to 5 minutes.
+const parseCacheTtlSeconds = (value: string | undefined): number => {
+    const seconds = value ? Number(value) : NaN;
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds : 300;
+};
+
+const AUTH_TOKEN_CACHE_TTL_MS = parseCacheTtlSeconds(process.env.AUTH_TOKEN_CACHE_TTL_SECONDS) * 1_000;
+
+// Concurrent callers share one in-flight fetch. Failed fetches aren't cached.
+let cachedAuthToken: { value: Promise<string | undefined>; expiresAt: number } | undefined;
+let nextFetchReason: TokenFetchReason = "cold";
+
+/**
+ * Fetch the raw auth token from the source configured by AUTH_TOKEN_SOURCE_TYPE
+ * ("secretsmanager" or "ssm") and AUTH_TOKEN_SOURCE_ID (secret or parameter name).
+ * The token is cached for AUTH_TOKEN_CACHE_TTL_SECONDS (default 5 minutes, 0 to not cache it).
+ */
+export const getAuthTokenValue = (): Promise<string | undefined> => {
+    const sourceType = process.env.AUTH_TOKEN_SOURCE_TYPE ?? "secretsmanager";
+    const sourceId = process.env.AUTH_TOKEN_SOURCE_ID;
+    if (!sourceId) return Promise.reject(new Error("AUTH_TOKEN_SOURCE_ID env var not set"));
+
+    if (cachedAuthToken && Date.now() < cachedAuthToken.expiresAt) {
+        return cachedAuthToken.value;
+    }
+
+    const reason = cachedAuthToken ? "expired" : nextFetchReason;
+    nextFetchReason = "cold";
+
+    const value = fetchAuthTokenValue(sourceType, sourceId, reason);
+    const entry = { value, expiresAt: Date.now() + AUTH_TOKEN_CACHE_TTL_MS };
+    cachedAuthToken = entry;
+    value.catch(() => {
+        if (cachedAuthToken === entry) cachedAuthToken = undefined;
+    });
+    return value;
+};
+
+/**
+ * Drops the cached auth token, e.g. after a 401, so the next call fetches the current one.
+ */
+export const invalidateAuthTokenValue = (): void => {
+    cachedAuthToken = undefined;
+    cachedClientCredentialsToken = undefined;
+    nextFetchReason = "unauthorized";
+};
+
+/**
+ * Fetches the auth token from its source, bypassing the cache, and caches it for the calls that
+ * follow. Use it where a token cached by an earlier invocation must not be trusted, e.g. to tell
+ * whether the secret still holds the placeholder after it was updated.
+ */
+export const refreshAuthTokenValue = (): Promise<string | undefined> => {
+    cachedAuthToken = undefined;
+    cachedClientCredentialsToken = undefined;
+    nextFetchReason = "refresh";
+    return getAuthTokenValue();
+};
+
+// Access tokens are refreshed this long before the token endpoint says they expire
+const ACCESS_TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+let cachedClientCredentialsToken: { accessToken: Promise<string>; expiresAt: number } | undefined;
+
+/**
+ * Exchanges the client ID and secret held by the auth secret for an access token at
+ * OAUTH_TOKEN_ENDPOINT (OAuth 2.0 client credentials grant).
+ */
+const fetchClientCredentialsToken = async (): Promise<{ accessToken: string; expiresInMs: number }> => {
+    const tokenEndpoint = process.env.OAUTH_TOKEN_ENDPOINT;
+    if (!tokenEndpoint) throw new Error("OAUTH_TOKEN_ENDPOINT env var not set");
+
+    let credentials: { clientId?: string; clientSecret?: string } = {};
+    try {
+        credentials = JSON.parse((await getAuthTokenValue()) ?? "");
+    } catch {
+        // Reported below
+    }
+    if (!credentials.clientId || !credentials.clientSecret) {
+        throw new Error('The auth secret must hold {"clientId": "...", "clientSecret": "..."} for client credentials auth');
+    }
+
+    const basicCredentials = Buffer.from(
+        `${encodeURIComponent(credentials.clientId)}:${encodeURIComponent(credentials.clientSecret)}`
+    ).toString("base64");
+    const response = await fetch(tokenEndpoint, {
+        method: "POST",
+        headers: {
+            "Authorization": `Basic ${basicCredentials}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+            grant_type: "client_credentials",
+            ...(process.env.OAUTH_SCOPES && { scope: process.env.OAUTH_SCOPES }),
+        }),
+    });
+
+    if (!response.ok) {
+        const body = await response.text();
+        throw new Error(`OAuth token endpoint returned ${response.status}: ${body.slice(0, 500)}`);
+    }
+
+    const token = await response.json() as { access_token?: string; expires_in?: number };
+    if (!token.access_token) throw new Error("OAuth token endpoint response has no access_token");
+
+    return { accessToken: token.access_token, expiresInMs: (token.expires_in ?? 3600) * 1_000 };
+};
+
+const getClientCredentialsToken = (): Promise<string> => {
+    if (cachedClientCredentialsToken && Date.now() < cachedClientCredentialsToken.expiresAt) {
+        return cachedClientCredentialsToken.accessToken;
+    }
+
+    // Expiry isn't known until the token arrives; concurrent callers share the fetch meanwhile
+    const entry = { expiresAt: Infinity } as { accessToken: Promise<string>; expiresAt: number };
+    entry.accessToken = (async () => {
+        try {
+            const { accessToken, expiresInMs } = await fetchClientCredentialsToken();
+            entry.expiresAt = Date.now() + Math.max(0, expiresInMs - ACCESS_TOKEN_EXPIRY_MARGIN_MS);
+            return accessToken;
+        } catch (err) {
+            if (cachedClientCredentialsToken === entry) cachedClientCredentialsToken = undefined;
+            throw err;
+        }
+    })();
+    cachedClientCredentialsToken = entry;
+    return entry.accessToken;
+};
+
+/**
+ * The bearer token for API calls: the auth secret itself, or in CLIENT_CREDENTIALS mode
+ * (AUTH_MODE) an access token fetched with the credentials it holds.
+ */
 const getAccessToken = async () => {
-    const secretName = process.env.AUTH_SECRET_NAME;
-    if (!secretName) throw new Error("AUTH_SECRET_NAME env var not set");
-    const secret = await getSecretValueByName(secretName);
-    if (!secret) throw new Error("Could not fetch access token secret");
-    return secret;
+    const token = process.env.AUTH_MODE === "CLIENT_CREDENTIALS"
+        ? await getClientCredentialsToken()
+        : await getAuthTokenValue();
+    if (!token) throw new Error("Could not fetch access token");
+    return token;
 };
 
 type ProviderFactory = (
@@ -80,10 +270,10 @@ export const getErrorMessage = (err: unknown): string => {
 
     const errorType = e?.errorType;
     const message = e?.message;
-    const httpStatus = e?.$metadata?.httpStatusCode;
+    const httpStatus = e?.statusCode ?? e?.$metadata?.httpStatusCode;
 
-    if (errorType === 'ValidationError' && e.fields) {
-        const fieldErrors = Object.entries(e.fields)
+    if (err instanceof ValidationError && Object.keys(err.fields).length > 0) {
+        const fieldErrors = Object.entries(err.fields)
             .map(([field, msg]) => `${field}: ${msg}`)
             .join(', ');
         return `Validation Error: ${fieldErrors}`;
@@ -96,7 +286,147 @@ export const getErrorMessage = (err: unknown): string => {
     return 'Unexpected error';
 };
 
-export const getApiClient = (): AssertiveClient<JustWorkflowIt> => {
+/**
+ * Retry settings for API calls. Every call gets the defaults, merged with the overrides for its
+ * operation, e.g. `registerWorkflowVersion`.
+ */
+export type RetryPolicy = {
+    maxAttempts: number; // Attempts per call, including the first
+    baseDelayMs: number; // Backoff cap before the first retry, doubled on each attempt
+    throttlingBaseDelayMs: number; // Same, for throttled (429) calls
+    maxDelayMs: number; // Cap on any single backoff, including Retry-After
+};
+
+export type RetryPolicyConfig = Partial<RetryPolicy> & {
+    operations?: Record<string, Partial<RetryPolicy>>;
+};
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1_000,
+    throttlingBaseDelayMs: 2_000,
+    maxDelayMs: 20_000,
+};
+
+// Transient network failures
+const RETRYABLE_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN"];
+
+// Network failures that happen before the request is sent
+const UNSENT_REQUEST_ERROR_CODES = ["ECONNREFUSED", "EAI_AGAIN"];
+
+// Calls that create a workflow. After a 5xx or a dropped connection the API may still have applied
+// the call, and a retry would create a second workflow with the same name, so these are only
+// retried when the request was throttled or never sent. registerWorkflowVersion isn't listed: a
+// duplicate version is never tagged, since only the version returned by the call is.
+const NON_IDEMPOTENT_OPERATIONS = ["registerWorkflow"];
+
+/**
+ * Reads the retry policy set by the construct in API_RETRY_POLICY (JSON). The older
+ * REGISTER_WORKFLOW_VERSION_MAX_ATTEMPTS and REGISTER_WORKFLOW_VERSION_BASE_DELAY_MS variables
+ * still override registerWorkflowVersion.
+ */
+const retryPolicyFromEnv = (): RetryPolicyConfig => {
+    const config: RetryPolicyConfig = process.env.API_RETRY_POLICY ? JSON.parse(process.env.API_RETRY_POLICY) : {};
+    const legacyMaxAttempts = Number(process.env.REGISTER_WORKFLOW_VERSION_MAX_ATTEMPTS);
+    const legacyBaseDelayMs = Number(process.env.REGISTER_WORKFLOW_VERSION_BASE_DELAY_MS);
+
+    if (process.env.REGISTER_WORKFLOW_VERSION_MAX_ATTEMPTS || process.env.REGISTER_WORKFLOW_VERSION_BASE_DELAY_MS) {
+        config.operations = {
+            ...config.operations,
+            registerWorkflowVersion: {
+                ...(Number.isFinite(legacyMaxAttempts) && { maxAttempts: legacyMaxAttempts }),
+                ...(Number.isFinite(legacyBaseDelayMs) && { baseDelayMs: legacyBaseDelayMs }),
+                ...config.operations?.registerWorkflowVersion,
+            },
+        };
+    }
+    return config;
+};
+
+const retryPolicyFor = (config: RetryPolicyConfig, operation: string): RetryPolicy => {
+    const { operations, ...defaults } = config;
+    return { ...DEFAULT_RETRY_POLICY, ...defaults, ...operations?.[operation] };
+};
+
+const isRetryableError = (err: any, operation: string): boolean => {
+    if (NON_IDEMPOTENT_OPERATIONS.includes(operation)) {
+        return err instanceof ThrottlingError || UNSENT_REQUEST_ERROR_CODES.includes(err?.code);
+    }
+    return err instanceof JustWorkflowItApiError
+        ? err.isRetryable
+        : RETRYABLE_ERROR_CODES.includes(err?.code) || err?.name === "TimeoutError";
+};
+
+/**
+ * Milliseconds the API asked us to wait, from a Retry-After header in seconds or as an HTTP date.
+ */
+const retryAfterMs = (err: any): number | undefined => {
+    const headers = (err instanceof JustWorkflowItApiError ? (err.cause as any) : err)?.$response?.headers ?? {};
+    const value = headers["retry-after"] ?? headers["Retry-After"];
+    if (value === undefined) return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1_000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Exponential backoff with full jitter, unless the API sent Retry-After. Throttled calls back off
+ * from the longer throttling base delay.
+ */
+const retryDelayMs = (err: any, attempt: number, policy: RetryPolicy): number => {
+    const requested = retryAfterMs(err);
+    if (requested !== undefined) return Math.min(requested, policy.maxDelayMs);
+
+    const baseDelayMs = err instanceof ThrottlingError ? policy.throttlingBaseDelayMs : policy.baseDelayMs;
+    return Math.random() * Math.min(policy.maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Makes the call again with a freshly fetched token if it was rejected with 401, which is what a
+ * token rotated mid-deployment looks like while the old one is still cached.
+ */
+const callWithTokenRefresh = async (operation: string, call: () => Promise<any>): Promise<any> => {
+    try {
+        return await call();
+    } catch (err) {
+        const apiError = deserializeSmithyError(err);
+        if (!(apiError instanceof UnauthorizedError && apiError.statusCode === 401)) throw err;
+
+        console.warn(`⚠️ ${operation} was rejected with 401. Fetching the auth token again and retrying...`);
+        invalidateAuthTokenValue();
+        return call();
+    }
+};
+
+/**
+ * Makes the call, retrying retryable failures, and throws the last failure as a typed error.
+ */
+const callWithRetry = async (operation: string, policy: RetryPolicy, call: () => Promise<any>): Promise<any> => {
+    const maxAttempts = Math.max(1, policy.maxAttempts);
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await call();
+        } catch (rawErr) {
+            const err = deserializeSmithyError(rawErr);
+            if (attempt >= maxAttempts || !isRetryableError(err, operation)) throw err;
+
+            const delay = Math.round(retryDelayMs(err, attempt, policy));
+            console.warn(
+                `⚠️ ${operation} attempt ${attempt} of ${maxAttempts} failed${err instanceof ThrottlingError ? " (throttled)" : ""}. Retrying in ${delay}ms...`,
+                getErrorMessage(err)
+            );
+            await sleep(delay);
+        }
+    }
+};
+
+export const getApiClient = (retryConfig: RetryPolicyConfig = retryPolicyFromEnv()): AssertiveClient<JustWorkflowIt> => {
     const client = new JustWorkflowIt({
         endpoint,
         httpAuthSchemes: [
@@ -118,14 +448,13 @@ export const getApiClient = (): AssertiveClient<JustWorkflowIt> => {
             const orig = target[prop];
             if (typeof orig !== 'function') return orig;
 
-            return async (...args: any[]) => {
-                try {
-                    return await (orig as any).apply(target, args);
-                } catch (err) {
-                    const rehydrated = await deserializeSmithyError(err);
-                    throw rehydrated;
-                }
-            };
+            const policy = retryPolicyFor(retryConfig, String(prop));
+
+            return (...args: any[]) => callWithRetry(
+                String(prop),
+                policy,
+                () => callWithTokenRefresh(String(prop), () => (orig as any).apply(target, args))
+            );
         },
     });
 
@@ -1,41 +1,167 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-// eslint-disable-next-line @typescript-eslint/no-require-imports
-export type SmithyErrorClass = new (args: any) => Error;
-
-export async function buildSmithyErrorRegistry(): Promise<Record<string, SmithyErrorClass>> {
-    const module = await import('@justworkflowit/api-client');
-    console.log(module);
-    return Object.entries(module)
-        .filter(([key, val]) => {
-            return (
-                typeof val === 'function' &&
-                key.endsWith('Error') // &&
-                // typeof (val as any).prototype?.errorType === 'string' &&
-                // typeof (val as any).prototype?.constructor === 'function'
-            );
-        })
-        .reduce((acc, [name, ctor]) => {
-            acc[name] = ctor as SmithyErrorClass;
-            return acc;
-        }, {} as Record<string, SmithyErrorClass>);
+import * as apiClient from "@justworkflowit/api-client";
+
+type ApiErrorDetails = {
+    errorType?: string; // Error type sent by the API, e.g. 'NotFoundError'
+    statusCode?: number;
+    fields?: Record<string, string>;
+    cause?: unknown; // The error as thrown by the smithy client
+};
+
+/**
+ * Base class of the errors thrown by getApiClient. Callers branch on the subclass, not on the message.
+ */
+export class JustWorkflowItApiError extends Error {
+    public readonly errorType?: string;
+    public readonly statusCode?: number;
+    public readonly cause?: unknown;
+
+    constructor(message: string, details: ApiErrorDetails = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.errorType = details.errorType;
+        this.statusCode = details.statusCode;
+        this.cause = details.cause;
+    }
+
+    // Whether the same call may succeed if made again
+    public get isRetryable(): boolean {
+        return false;
+    }
+}
+
+export class NotFoundError extends JustWorkflowItApiError {}
+
+export class ValidationError extends JustWorkflowItApiError {
+    public readonly fields: Record<string, string>; // Message by invalid input field
+
+    constructor(message: string, details: ApiErrorDetails = {}) {
+        super(message, details);
+        this.fields = details.fields ?? {};
+    }
+}
+
+export class ThrottlingError extends JustWorkflowItApiError {
+    public get isRetryable(): boolean {
+        return true;
+    }
+}
+
+export class UnauthorizedError extends JustWorkflowItApiError {}
+
+export class ConflictError extends JustWorkflowItApiError {}
+
+export class ServerFaultError extends JustWorkflowItApiError {
+    public get isRetryable(): boolean {
+        return true;
+    }
 }
 
-export async function deserializeSmithyError(err: any): Promise<Error> {
-    if (!err || typeof err !== 'object') return new Error('Unknown error');
+type ApiErrorClass = new (message: string, details?: ApiErrorDetails) => JustWorkflowItApiError;
+
+// Typed classes for the API errors of the same name
+const TYPED_ERROR_CLASSES: ReadonlyMap<string, ApiErrorClass> = new Map<string, ApiErrorClass>([
+    ["NotFoundError", NotFoundError],
+    ["ValidationError", ValidationError],
+    ["ThrottlingError", ThrottlingError],
+    ["UnauthorizedError", UnauthorizedError],
+    ["ConflictError", ConflictError],
+]);
+
+// What the smithy client may put on the errors it throws. Every field is checked before it's used.
+type SmithyErrorShape = {
+    name?: unknown;
+    message?: unknown;
+    errorType?: unknown;
+    statusCode?: unknown;
+    fields?: unknown;
+    $metadata?: { httpStatusCode?: unknown };
+    $retryable?: { throttling?: unknown };
+    $fault?: unknown;
+};
+
+type SmithyErrorClass = new (options: { message: string; $metadata: object }) => SmithyErrorShape;
 
-    const registry = await buildSmithyErrorRegistry();
-    const typeName = err?.errorType;
+const isSmithyErrorClass = (value: unknown): value is SmithyErrorClass =>
+    typeof value === "function" && value.prototype instanceof Error;
 
-    if (typeName && registry[typeName]) {
-        const ErrorClass = registry[typeName];
-        const { message, errorType, statusCode, ...rest } = err;
-        return new ErrorClass({
-            message: typeof message === 'string' ? message : 'Unknown error',
-            errorType,
-            statusCode,
-            ...rest,
+// The typed class for a modeled error without one of its own, from the traits smithy generates
+// into it. Client errors without a typed class are left to the HTTP status.
+const errorClassForTraits = (SmithyError: SmithyErrorClass): ApiErrorClass | undefined => {
+    let instance: SmithyErrorShape;
+    try {
+        instance = new SmithyError({ message: "", $metadata: {} });
+    } catch {
+        return undefined;
+    }
+    if (instance.$retryable?.throttling) return ThrottlingError;
+    if (instance.$fault === "server") return ServerFaultError;
+    return undefined;
+};
+
+let errorTypeRegistry: ReadonlyMap<string, ApiErrorClass> | undefined;
+
+/**
+ * The typed class of every error the api-client exports, by error type. Built on first use and
+ * kept for the life of the Lambda container.
+ */
+const getErrorTypeRegistry = (): ReadonlyMap<string, ApiErrorClass> => {
+    if (!errorTypeRegistry) {
+        const registry = new Map<string, ApiErrorClass>();
+        Object.entries(apiClient).forEach(([exportName, exported]) => {
+            if (!exportName.endsWith("Error") || !isSmithyErrorClass(exported)) return;
+            const ErrorClass = TYPED_ERROR_CLASSES.get(exportName) ?? errorClassForTraits(exported);
+            if (ErrorClass) registry.set(exportName, ErrorClass);
         });
+        errorTypeRegistry = registry;
+    }
+    return errorTypeRegistry;
+};
+
+const errorClassForStatus = (statusCode: number): ApiErrorClass | undefined => {
+    if (statusCode === 404) return NotFoundError;
+    if (statusCode === 400 || statusCode === 422) return ValidationError;
+    if (statusCode === 429) return ThrottlingError;
+    if (statusCode === 401 || statusCode === 403) return UnauthorizedError;
+    if (statusCode === 409) return ConflictError;
+    if (statusCode >= 500) return ServerFaultError;
+    return undefined;
+};
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const asNumber = (value: unknown): number | undefined => (typeof value === 'number' ? value : undefined);
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+    !!value && typeof value === 'object' && Object.values(value).every((v) => typeof v === 'string');
+
+/**
+ * Turns an error thrown by the smithy client into a JustWorkflowItApiError subclass, by the error
+ * type the API sent or else the HTTP status. Errors that never got a response, e.g. network
+ * errors, are returned unchanged.
+ */
+export function deserializeSmithyError(err: unknown): Error {
+    if (err instanceof JustWorkflowItApiError) return err;
+    if (!err || typeof err !== 'object') return new JustWorkflowItApiError('Unknown error', { cause: err });
+
+    const smithyError = err as SmithyErrorShape;
+    const errorType = asString(smithyError.errorType) ?? asString(smithyError.name);
+    const statusCode = asNumber(smithyError.$metadata?.httpStatusCode) ?? asNumber(smithyError.statusCode);
+    const message = asString(smithyError.message);
+
+    const ErrorClass = (errorType && getErrorTypeRegistry().get(errorType))
+        ?? (statusCode !== undefined ? errorClassForStatus(statusCode) : undefined)
+        ?? (smithyError.$retryable?.throttling ? ThrottlingError : undefined)
+        ?? (smithyError.$fault === 'server' ? ServerFaultError : undefined)
+        ?? (statusCode !== undefined || smithyError.errorType ? JustWorkflowItApiError : undefined);
+
+    if (!ErrorClass) {
+        return err instanceof Error ? err : new JustWorkflowItApiError(message || 'Unknown error', { cause: err });
     }
 
-    return new Error(err?.message || 'Unknown error');
+    return new ErrorClass(message ?? 'Unknown error', {
+        errorType,
+        statusCode,
+        fields: isStringRecord(smithyError.fields) ? smithyError.fields : undefined,
+        cause: err,
+    });
 }